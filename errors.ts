@@ -0,0 +1,255 @@
+/** A Reddit API error as found in the `json.errors` array of `api_type=json` responses
+ * @example ["SUBREDDIT_NOEXIST", "that subreddit doesn't exist", "sr"]
+ */
+export type RedditErrorDetail = [code: string, message: string, field?: string];
+
+/**
+ * The base class for all errors thrown by Snooland
+ */
+export class RedditError extends Error {
+  name = "RedditError";
+  constructor(
+    message: string,
+    /** The endpoint that was requested */
+    readonly endpoint: string,
+    /** The HTTP status of the response */
+    readonly status: number,
+    /** The errors reported by Reddit, if any */
+    readonly errors: RedditErrorDetail[] = [],
+  ) {
+    super(message);
+  }
+
+  /** The Reddit error codes, e.g. `["RATELIMIT"]` */
+  get codes() {
+    return this.errors.map(([code]) => code);
+  }
+}
+
+/**
+ * Thrown when Reddit responds with a non-OK HTTP status
+ */
+export class HttpError extends RedditError {
+  name = "HttpError";
+  constructor(
+    endpoint: string,
+    status: number,
+    readonly statusText: string,
+    errors: RedditErrorDetail[] = [],
+    /** The response body, parsed as JSON if possible */
+    readonly body?: unknown,
+    /** Milliseconds to wait before retrying, from the `Retry-After` header */
+    readonly retryAfter?: number,
+  ) {
+    super(
+      `${status} ${statusText}`.trim() + ` (${endpoint})`,
+      endpoint,
+      status,
+      errors,
+    );
+  }
+}
+
+/** 401 or a failed OAuth token request */
+export class AuthError extends HttpError {
+  name = "AuthError";
+}
+
+/** 403, e.g. a private, quarantined or banned subreddit */
+export class ForbiddenError extends HttpError {
+  name = "ForbiddenError";
+}
+
+/** 404 */
+export class NotFoundError extends HttpError {
+  name = "NotFoundError";
+}
+
+/** 409, e.g. a wiki edit based on an outdated revision */
+export class ConflictError extends HttpError {
+  name = "ConflictError";
+}
+
+/** 429 */
+export class RateLimitError extends HttpError {
+  name = "RateLimitError";
+}
+
+/** 5xx */
+export class ServerError extends HttpError {
+  name = "ServerError";
+}
+
+/**
+ * Thrown when a request fails without a response, e.g. a refused or dropped connection
+ */
+export class NetworkError extends RedditError {
+  name = "NetworkError";
+  constructor(endpoint: string, cause: unknown) {
+    super(
+      `${cause instanceof Error ? cause.message : cause} (${endpoint})`,
+      endpoint,
+      0,
+    );
+    this.cause = cause;
+  }
+}
+
+/** A response field that does not match its type, e.g. `$.data.children[2].data.score` */
+export type ValidationIssue = {
+  path: string;
+  expected: string;
+  received: string;
+};
+
+/**
+ * Thrown in strict validation mode when a response does not match the types
+ */
+export class ValidationError extends RedditError {
+  name = "ValidationError";
+  constructor(
+    endpoint: string,
+    status: number,
+    readonly issues: ValidationIssue[],
+  ) {
+    super(
+      issues.slice(0, 3).map((i) =>
+        `${i.path}: expected ${i.expected}, received ${i.received}`
+      ).join(", ") +
+        (issues.length > 3 ? ` and ${issues.length - 3} more` : "") +
+        ` (${endpoint})`,
+      endpoint,
+      status,
+    );
+  }
+}
+
+/**
+ * Thrown when an `api_type=json` endpoint responds with a non-empty `json.errors` array
+ */
+export class ApiError extends RedditError {
+  name = "ApiError";
+  constructor(endpoint: string, status: number, errors: RedditErrorDetail[]) {
+    super(
+      errors.map(([code, message]) => `${code}: ${message}`).join(", ") +
+        ` (${endpoint})`,
+      endpoint,
+      status,
+      errors,
+    );
+  }
+}
+
+/** `RATELIMIT`, e.g. "you are doing that too much. try again in 5 minutes." */
+export class ApiRateLimitError extends ApiError {
+  name = "ApiRateLimitError";
+
+  /** Milliseconds to wait before trying again, from the error message */
+  get retryAfter() {
+    const message = this.errors.find(([code]) => code === "RATELIMIT")?.[1];
+    const match = message?.match(/(\d+) (millisecond|second|minute|hour)/);
+    if (!match) return undefined;
+    const units = {
+      millisecond: 1,
+      second: 1000,
+      minute: 60_000,
+      hour: 3_600_000,
+    };
+    return Number(match[1]) * units[match[2] as keyof typeof units];
+  }
+}
+
+/** `SUBREDDIT_NOEXIST` */
+export class SubredditNotFoundError extends ApiError {
+  name = "SubredditNotFoundError";
+}
+
+/** `ALREADY_SUB`, the link was already submitted to the subreddit */
+export class AlreadySubmittedError extends ApiError {
+  name = "AlreadySubmittedError";
+}
+
+/**
+ * Create the matching error for a non-empty `json.errors` array
+ */
+export function apiError(
+  endpoint: string,
+  status: number,
+  errors: RedditErrorDetail[],
+) {
+  const codes = errors.map(([code]) => code);
+  if (codes.includes("RATELIMIT")) {
+    return new ApiRateLimitError(endpoint, status, errors);
+  }
+  if (codes.includes("SUBREDDIT_NOEXIST")) {
+    return new SubredditNotFoundError(endpoint, status, errors);
+  }
+  if (codes.includes("ALREADY_SUB")) {
+    return new AlreadySubmittedError(endpoint, status, errors);
+  }
+  return new ApiError(endpoint, status, errors);
+}
+
+/**
+ * Create the matching error for a non-OK response
+ * @param endpoint The endpoint that was requested
+ * @param res The response
+ * @param body The response body, parsed as JSON if possible
+ */
+export function httpError(endpoint: string, res: Response, body?: unknown) {
+  const errors = parseErrors(body);
+  const args = [
+    endpoint,
+    res.status,
+    res.statusText,
+    errors,
+    body,
+    parseRetryAfter(res.headers.get("retry-after")),
+  ] as const;
+  if (res.status === 401) return new AuthError(...args);
+  if (res.status === 403) return new ForbiddenError(...args);
+  if (res.status === 404) return new NotFoundError(...args);
+  if (res.status === 409) return new ConflictError(...args);
+  if (res.status === 429) return new RateLimitError(...args);
+  if (res.status >= 500) return new ServerError(...args);
+  return new HttpError(...args);
+}
+
+/**
+ * Parse a `Retry-After` header, which is either a number of seconds or an HTTP date
+ * @returns The delay in milliseconds
+ */
+function parseRetryAfter(header: string | null) {
+  if (!header) return undefined;
+  const seconds = Number(header);
+  if (!isNaN(seconds)) return seconds * 1000;
+  const date = Date.parse(header);
+  return isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/**
+ * Extract the Reddit error codes from a response body
+ *
+ * Reddit reports errors in a few different shapes:
+ * - `{ json: { errors: [[code, message, field]] } }` for `api_type=json` endpoints
+ * - `{ reason: "private", message: "Forbidden", error: 403 }` for listings
+ * - `{ error: "invalid_grant" }` for OAuth token requests
+ */
+export function parseErrors(body: unknown): RedditErrorDetail[] {
+  if (!body || typeof body !== "object") return [];
+  const b = body as {
+    json?: { errors?: RedditErrorDetail[] };
+    reason?: string;
+    message?: string;
+    error?: string | number;
+    explanation?: string;
+  };
+  if (b.json?.errors?.length) return b.json.errors;
+  if (typeof b.reason === "string") {
+    return [[b.reason, b.explanation ?? b.message ?? b.reason]];
+  }
+  if (typeof b.error === "string") {
+    return [[b.error, b.message ?? b.error]];
+  }
+  return [];
+}
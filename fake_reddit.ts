@@ -0,0 +1,774 @@
+import type { Transport } from "./transport.ts";
+import type {
+  Account,
+  Comment,
+  Fullname,
+  Link,
+  Listing,
+  ListingTypes,
+  Message,
+  OAuthScope,
+  Subreddit,
+  Thing,
+} from "./types.ts";
+
+/** The initial state of a fake server */
+export type FakeRedditSeed = {
+  /** The registered apps, any client is accepted if empty */
+  clients?: { clientId: string; clientSecret?: string }[];
+  users?: { name: string; password: string }[];
+  subreddits?: (Partial<Subreddit> & { display_name: string })[];
+  links?: (Partial<Link> & { subreddit: string; title: string })[];
+  /** Comments with a `link_id`, and a `parent_id` for replies */
+  comments?: (Partial<Comment> & { link_id: string; body: string })[];
+  messages?: (Partial<Message> & { dest: string; body: string })[];
+};
+
+export type FakeRedditOptions = {
+  /** The requests allowed per rate limit window and credentials
+   * @default 600
+   */
+  rateLimit?: number;
+  /** The length of a rate limit window in seconds
+   * @default 600
+   */
+  window?: number;
+  /** The lifetime of access tokens in seconds
+   * @default 3600
+   */
+  tokenLifetime?: number;
+};
+
+type Failure = {
+  path: string | RegExp;
+  status: number;
+  times: number;
+  headers?: Record<string, string>;
+};
+
+type Grant = {
+  clientId: string;
+  user?: string;
+  scopes: OAuthScope[] | "*";
+};
+
+type AccessToken = Grant & { expiry: number };
+
+type Route = (
+  req: Request,
+  match: RegExpMatchArray,
+  params: URLSearchParams,
+  grant?: Grant,
+) => Response | Promise<Response>;
+
+/**
+ * An in-memory Reddit for tests, implementing the endpoints Snooland uses
+ *
+ * Rate limit headers, token expiry and failures are simulated, so that
+ * retries, pagination and token refreshes can be tested without network access.
+ * @example
+ * ```ts
+ * const fake = new FakeReddit({
+ *   users: [{ name: "alice", password: "hunter2" }],
+ *   links: [{ subreddit: "deno", title: "Hello", author: "alice" }],
+ * });
+ * const reddit = Reddit.create({
+ *   clientId: "id",
+ *   clientSecret: "secret",
+ *   username: "alice",
+ *   password: "hunter2",
+ *   transport: fake.transport,
+ * });
+ * // or over HTTP
+ * Deno.serve({ port: 8080 }, fake.handler);
+ * ```
+ */
+export class FakeReddit {
+  readonly subreddits = new Map<string, Subreddit>();
+  readonly links = new Map<string, Link>();
+  readonly comments = new Map<string, Comment>();
+  readonly messages: Message[] = [];
+  readonly users = new Map<string, string>();
+  readonly clients = new Map<string, string>();
+  /** The requests received, e.g. `GET /r/deno/new` */
+  readonly requests: string[] = [];
+  readonly options: Required<FakeRedditOptions>;
+  #tokens = new Map<string, AccessToken>();
+  #refreshTokens = new Map<string, Grant>();
+  #codes = new Map<string, Grant>();
+  #windows = new Map<string, { used: number; reset: number }>();
+  #failures: Failure[] = [];
+  #nextId = 1000;
+
+  constructor(seed: FakeRedditSeed = {}, options: FakeRedditOptions = {}) {
+    this.options = {
+      rateLimit: 600,
+      window: 600,
+      tokenLifetime: 3600,
+      ...options,
+    };
+    for (const c of seed.clients ?? []) {
+      this.clients.set(c.clientId, c.clientSecret ?? "");
+    }
+    for (const u of seed.users ?? []) this.users.set(u.name, u.password);
+    seed.subreddits?.forEach((s) => this.addSubreddit(s));
+    seed.links?.forEach((l) => this.addLink(l));
+    seed.comments?.forEach((c) => this.addComment(c));
+    seed.messages?.forEach((m) => this.addMessage(m));
+  }
+
+  /**
+   * Create a fake server from a JSON fixture file of a `FakeRedditSeed`
+   */
+  static async load(path: string | URL, options?: FakeRedditOptions) {
+    const seed: FakeRedditSeed = JSON.parse(await Deno.readTextFile(path));
+    return new FakeReddit(seed, options);
+  }
+
+  /** Handles requests, e.g. with `Deno.serve` */
+  readonly handler = async (req: Request): Promise<Response> => {
+    const url = new URL(req.url);
+    const path = url.pathname.replace(/^\/|\.json$|\/$/g, "");
+    this.requests.push(`${req.method} /${path}`);
+
+    const failure = this.#failures.find((f) =>
+      typeof f.path === "string" ? f.path === path : f.path.test(path)
+    );
+    if (failure) {
+      if (--failure.times <= 0) {
+        this.#failures.splice(this.#failures.indexOf(failure), 1);
+      }
+      return error(failure.status, failure.headers);
+    }
+
+    const params = new URLSearchParams(url.search);
+    if (req.method === "POST") {
+      const body = await req.text();
+      if (!req.headers.get("content-type")?.includes("json")) {
+        new URLSearchParams(body).forEach((v, k) => params.set(k, v));
+      }
+    }
+    if (path === "api/v1/access_token") return this.#accessToken(req, params);
+    if (path === "api/v1/revoke_token") return this.#revokeToken(params);
+
+    const auth = req.headers.get("authorization");
+    let grant: AccessToken | undefined;
+    if (auth?.toLowerCase().startsWith("bearer ")) {
+      grant = this.#tokens.get(auth.slice(7));
+      if (!grant || grant.expiry < Date.now()) return error(401);
+    }
+
+    const limit = this.#rateLimit(
+      grant ? `${grant.clientId}:${grant.user}` : "",
+    );
+    if (limit.remaining < 0) return error(429, limit.headers);
+
+    for (const [pattern, method, route] of this.#routes) {
+      const match = path.match(pattern);
+      if (!match || req.method !== method) continue;
+      const res = await route(req, match, params, grant);
+      for (const [k, v] of Object.entries(limit.headers)) res.headers.set(k, v);
+      return res;
+    }
+    return error(404);
+  };
+
+  /** Sends requests to the handler, to pass to `Reddit.create` */
+  readonly transport: Transport = (input, init) =>
+    this.handler(new Request(input, init));
+
+  /**
+   * Fail the next requests to a path
+   * @param path The path without the leading slash and `.json`, e.g. `r/deno/new`
+   * @param status The HTTP status of the responses
+   * @param times The number of requests that fail
+   */
+  fail(
+    path: string | RegExp,
+    status: number,
+    times = 1,
+    headers?: Record<string, string>,
+  ) {
+    this.#failures.push({ path, status, times, headers });
+  }
+
+  /**
+   * Expire all access tokens, so that clients have to refresh them
+   */
+  expireTokens() {
+    for (const token of this.#tokens.values()) token.expiry = 0;
+  }
+
+  /**
+   * Authorize an app for a user, as the authorization page does
+   * @returns The code for the `authorization_code` grant
+   */
+  authorize(
+    clientId: string,
+    user: string,
+    scopes: OAuthScope[] | "*" = "*",
+  ) {
+    const code = this.#id("code");
+    this.#codes.set(code, { clientId, user, scopes });
+    return code;
+  }
+
+  addSubreddit(data: Partial<Subreddit> & { display_name: string }) {
+    const id = data.id ?? this.#id();
+    const subreddit = {
+      title: data.display_name,
+      description: "",
+      public_description: "",
+      subscribers: 0,
+      over18: false,
+      subreddit_type: "public",
+      url: `/r/${data.display_name}/`,
+      ...this.#created(),
+      ...data,
+      id,
+      name: `t5_${id}`,
+    } as Subreddit;
+    this.subreddits.set(subreddit.display_name.toLowerCase(), subreddit);
+    return subreddit;
+  }
+
+  addLink(data: Partial<Link> & { subreddit: string; title: string }) {
+    const subreddit = this.subreddits.get(data.subreddit.toLowerCase()) ??
+      this.addSubreddit({ display_name: data.subreddit });
+    const id = data.id ?? this.#id();
+    const permalink =
+      `/r/${subreddit.display_name}/comments/${id}/${data.title}/`;
+    const link = {
+      selftext: "",
+      author: "[deleted]",
+      score: 1,
+      ups: 1,
+      downs: 0,
+      likes: null,
+      num_comments: 0,
+      is_self: !data.url,
+      url: `https://www.reddit.com${permalink}`,
+      permalink,
+      locked: false,
+      saved: false,
+      hidden: false,
+      ...this.#created(),
+      ...data,
+      id,
+      name: `t3_${id}`,
+      subreddit: subreddit.display_name,
+      subreddit_id: subreddit.name,
+      subreddit_name_prefixed: `r/${subreddit.display_name}`,
+    } as Link;
+    this.links.set(id, link);
+    return link;
+  }
+
+  addComment(data: Partial<Comment> & { link_id: string; body: string }) {
+    const link = this.links.get(data.link_id.replace(/^t3_/, ""));
+    if (!link) throw new Error(`Unknown link ${data.link_id}`);
+    const id = data.id ?? this.#id();
+    const parent = data.parent_id &&
+      this.comments.get(data.parent_id.replace(/^t1_/, ""));
+    const comment = {
+      author: "[deleted]",
+      score: 1,
+      ups: 1,
+      downs: 0,
+      likes: null,
+      replies: "",
+      saved: false,
+      edited: false,
+      stickied: false,
+      ...this.#created(),
+      ...data,
+      id,
+      name: `t1_${id}`,
+      link_id: link.name,
+      link_title: link.title,
+      parent_id: parent ? parent.name : link.name,
+      depth: parent ? parent.depth + 1 : 0,
+      subreddit: link.subreddit,
+      subreddit_id: link.subreddit_id,
+      subreddit_name_prefixed: link.subreddit_name_prefixed,
+      permalink: `${link.permalink}${id}/`,
+    } as unknown as Comment;
+    this.comments.set(id, comment);
+    (link as { num_comments?: number }).num_comments = [
+      ...this.comments.values(),
+    ].filter((c) => c.link_id === link.name).length;
+    return comment;
+  }
+
+  addMessage(data: Partial<Message> & { dest: string; body: string }) {
+    const id = data.id ?? this.#id();
+    const message = {
+      author: "[deleted]",
+      subject: "",
+      new: true,
+      was_comment: false,
+      replies: "",
+      first_message: null,
+      first_message_name: null,
+      parent_id: null,
+      subreddit: null,
+      distinguished: null,
+      context: "",
+      ...this.#created(),
+      ...data,
+      id,
+      name: `t4_${id}`,
+    } as Message;
+    this.messages.push(message);
+    return message;
+  }
+
+  #routes: [RegExp, string, Route][] = [
+    [/^api\/v1\/me$/, "GET", (_req, _m, _p, grant) => {
+      if (!grant?.user) return error(403);
+      return Response.json(this.#account(grant.user));
+    }],
+    [/^api\/info$/, "GET", (_req, _m, params) => {
+      const url = params.get("url");
+      if (url) {
+        const links = this.#newest([...this.links.values()]).filter((l) =>
+          l.url === url
+        );
+        return this.#page(links.map((data) => ({ kind: "t3", data })), params);
+      }
+      // Like Reddit, ignore everything after the first 100
+      const ids = params.get("id")?.split(",").slice(0, 100) ?? [];
+      const names = params.get("sr_name")?.split(",").slice(0, 100) ?? [];
+      const things = [
+        ...ids.map((id) => this.#thing(id)),
+        ...names.map((name) => {
+          const data = this.subreddits.get(name.toLowerCase());
+          return data && { kind: "t5", data };
+        }),
+      ].filter(Boolean);
+      return Response.json(listing(things as Thing<ListingTypes>[]));
+    }],
+    [/^r\/([^/]+)\/comments$/, "GET", (_req, match, params) => {
+      const names = match[1].toLowerCase().split("+");
+      const comments = this.#newest([...this.comments.values()]).filter((c) =>
+        names.includes("all") || names.includes(c.subreddit.toLowerCase())
+      );
+      return this.#page(comments.map((data) => ({ kind: "t1", data })), params);
+    }],
+    [/^(?:r\/[^/]+\/)?comments(?:\/(\w+))?/, "GET", (_req, match, params) => {
+      const id = match[1] ?? params.get("article")?.replace(/^t3_/, "");
+      const link = id && this.links.get(id);
+      if (!link) return error(404);
+      return Response.json([
+        listing([{ kind: "t3", data: link }]),
+        listing(this.#replies(link.name, params.get("sort"))),
+      ]);
+    }],
+    [/^(?:r\/([^/]+)\/)?search$/, "GET", (_req, match, params) => {
+      const q = (params.get("q") ?? "").toLowerCase();
+      const restrict = match[1] && params.get("restrict_sr") === "true"
+        ? match[1].toLowerCase().split("+")
+        : undefined;
+      const type = params.get("type") ?? "link";
+      if (type === "sr") {
+        const subreddits = [...this.subreddits.values()].filter((s) =>
+          `${s.display_name} ${s.title} ${s.public_description}`.toLowerCase()
+            .includes(q)
+        );
+        return this.#page(
+          subreddits.map((data) => ({ kind: "t5", data })),
+          params,
+        );
+      }
+      const links = this.#newest([...this.links.values()]).filter((l) =>
+        `${l.title} ${l.selftext}`.toLowerCase().includes(q) &&
+        (!restrict || restrict.includes(l.subreddit.toLowerCase()))
+      );
+      return this.#page(links.map((data) => ({ kind: "t3", data })), params);
+    }],
+    [/^r\/([^/]+)\/about$/, "GET", (_req, match) => {
+      const subreddit = this.subreddits.get(match[1].toLowerCase());
+      if (!subreddit) return error(404);
+      return Response.json({ kind: "t5", data: subreddit });
+    }],
+    [
+      /^(?:r\/([^/]+))?\/?(hot|new|top|rising|controversial|best)?$/,
+      "GET",
+      (_req, match, params) => {
+        const names = match[1]?.toLowerCase().split("+");
+        if (names?.some((n) => n !== "all" && !this.subreddits.has(n))) {
+          return error(404);
+        }
+        let links = this.#newest([...this.links.values()]).filter((l) =>
+          !names || names.includes("all") ||
+          names.includes(l.subreddit.toLowerCase())
+        );
+        if (match[2] !== "new") links = byScore(links);
+        return this.#page(links.map((data) => ({ kind: "t3", data })), params);
+      },
+    ],
+    [/^user\/([^/]+)\/about$/, "GET", (_req, match) => {
+      if (!this.#userExists(match[1])) return error(404);
+      return Response.json({ kind: "t2", data: this.#account(match[1]) });
+    }],
+    [
+      /^user\/([^/]+)\/(submitted|comments|overview)$/,
+      "GET",
+      (_req, match, params) => {
+        const author = match[1].toLowerCase();
+        const things: Thing<Link | Comment>[] = [];
+        if (match[2] !== "comments") {
+          this.links.forEach((data) => things.push({ kind: "t3", data }));
+        }
+        if (match[2] !== "submitted") {
+          this.comments.forEach((data) => things.push({ kind: "t1", data }));
+        }
+        const mine = things.filter((t) =>
+          t.data.author.toLowerCase() === author
+        ).sort((a, b) => b.data.created_utc - a.data.created_utc);
+        return this.#page(mine, params);
+      },
+    ],
+    [/^message\/(inbox|unread|messages|sent)$/, "GET", (_req, m, p, g) => {
+      if (!g?.user) return error(403);
+      const user = g.user.toLowerCase();
+      const messages = this.#newest(this.messages).filter((msg) =>
+        m[1] === "sent"
+          ? msg.author.toLowerCase() === user
+          : msg.dest?.toLowerCase() === user && (m[1] !== "unread" || msg.new)
+      );
+      return this.#page(messages.map((data) => ({ kind: "t4", data })), p);
+    }],
+    [/^api\/comment$/, "POST", (_req, _m, params, grant) => {
+      if (!grant?.user) return error(403);
+      const parent = params.get("thing_id") ?? params.get("parent") ?? "";
+      const text = params.get("text") ?? "";
+      if (parent.startsWith("t4_")) {
+        const message = this.messages.find((m) => m.name === parent);
+        if (!message) return apiError("NO_THING_ID", "thing_id");
+        const data = this.addMessage({
+          author: grant.user,
+          dest: message.author,
+          subject: `re: ${message.subject}`,
+          body: text,
+          parent_id: message.name,
+          first_message_name: message.first_message_name ?? message.name,
+        });
+        return Response.json(things([{ kind: "t4", data }]));
+      }
+      const target = this.#thing(parent)?.data as Link | Comment | undefined;
+      if (!target || !("subreddit" in target)) {
+        return apiError("NO_THING_ID", "thing_id");
+      }
+      if (target.locked) return apiError("THREAD_LOCKED", "parent");
+      const data = this.addComment({
+        author: grant.user,
+        body: text,
+        link_id: "link_id" in target ? target.link_id : target.name,
+        parent_id: parent,
+      });
+      return Response.json(things([{ kind: "t1", data }]));
+    }],
+    [/^api\/submit$/, "POST", (_req, _m, params, grant) => {
+      if (!grant?.user) return error(403);
+      const sr = params.get("sr") ?? "";
+      if (!this.subreddits.has(sr.toLowerCase())) {
+        return apiError("SUBREDDIT_NOEXIST", "sr");
+      }
+      const title = params.get("title");
+      if (!title) return apiError("NO_TEXT", "title");
+      const url = params.get("url") ?? undefined;
+      const link = this.addLink({
+        subreddit: sr,
+        title,
+        author: grant.user,
+        selftext: params.get("text") ?? "",
+        ...params.get("kind") === "link" && { url, is_self: false },
+      });
+      return Response.json({
+        json: {
+          errors: [],
+          data: {
+            url: link.url,
+            drafts_count: 0,
+            id: link.id,
+            name: link.name,
+          },
+        },
+      });
+    }],
+    [/^api\/media\/asset$/, "POST", (_req, _m, params, grant) => {
+      if (!grant?.user) return error(403);
+      const id = this.#id();
+      const filepath = params.get("filepath") ?? "";
+      return Response.json({
+        args: {
+          action: `//${mediaHost}`,
+          fields: [
+            { name: "key", value: `rte_images/${id}/${filepath}` },
+            { name: "Content-Type", value: params.get("mimetype") ?? "" },
+          ],
+        },
+        asset: {
+          asset_id: id,
+          processing_state: "incomplete",
+          payload: { filepath },
+          websocket_url: `wss://${mediaHost}/${id}`,
+        },
+      });
+    }],
+    // The media storage the upload leases point to
+    [/^$/, "POST", () => new Response(null, { status: 201 })],
+    [/^api\/v1\/compose$/, "POST", (_req, _m, params, grant) => {
+      if (!grant?.user) return error(403);
+      const to = params.get("to") ?? "";
+      if (!this.#userExists(to)) return apiError("USER_DOESNT_EXIST", "to");
+      this.addMessage({
+        author: grant.user,
+        dest: to,
+        subject: params.get("subject") ?? "",
+        body: params.get("text") ?? "",
+      });
+      return Response.json({ json: { errors: [] } });
+    }],
+  ];
+
+  #accessToken(req: Request, params: URLSearchParams) {
+    const [clientId, secret] = atob(
+      req.headers.get("authorization")?.replace(/^Basic /, "") ?? "",
+    ).split(":");
+    if (
+      this.clients.size &&
+      (!this.clients.has(clientId) || this.clients.get(clientId) !== secret)
+    ) {
+      return error(401);
+    }
+    let grant: Grant | undefined;
+    let refresh: string | undefined;
+    switch (params.get("grant_type")) {
+      case "password": {
+        const user = params.get("username") ?? "";
+        if (this.users.get(user) !== params.get("password")) break;
+        grant = { clientId, user, scopes: "*" };
+        break;
+      }
+      case "refresh_token":
+        grant = this.#refreshTokens.get(params.get("refresh_token") ?? "");
+        break;
+      case "authorization_code":
+        grant = this.#codes.get(params.get("code") ?? "");
+        this.#codes.delete(params.get("code") ?? "");
+        if (grant) {
+          refresh = this.#id("refresh");
+          this.#refreshTokens.set(refresh, grant);
+        }
+        break;
+      case "client_credentials":
+      case "https://oauth.reddit.com/grants/installed_client":
+        grant = { clientId, scopes: "*" };
+    }
+    if (!grant || grant.clientId !== clientId) {
+      return Response.json({ error: "invalid_grant" }, { status: 400 });
+    }
+    const access = this.#id("access");
+    this.#tokens.set(access, {
+      ...grant,
+      expiry: Date.now() + this.options.tokenLifetime * 1000,
+    });
+    return Response.json({
+      access_token: access,
+      token_type: "bearer",
+      expires_in: this.options.tokenLifetime,
+      scope: grant.scopes === "*" ? "*" : grant.scopes.join(" "),
+      ...refresh && { refresh_token: refresh },
+    });
+  }
+
+  #revokeToken(params: URLSearchParams) {
+    const token = params.get("token") ?? "";
+    this.#tokens.delete(token);
+    this.#refreshTokens.delete(token);
+    return new Response(null, { status: 204 });
+  }
+
+  #rateLimit(key: string) {
+    const now = Date.now();
+    let window = this.#windows.get(key);
+    if (!window || window.reset <= now) {
+      window = { used: 0, reset: now + this.options.window * 1000 };
+      this.#windows.set(key, window);
+    }
+    window.used++;
+    const remaining = this.options.rateLimit - window.used;
+    const reset = Math.ceil((window.reset - now) / 1000);
+    return {
+      remaining,
+      headers: {
+        "x-ratelimit-used": `${window.used}`,
+        "x-ratelimit-remaining": `${Math.max(remaining, 0).toFixed(1)}`,
+        "x-ratelimit-reset": `${reset}`,
+        ...remaining < 0 && { "retry-after": `${reset}` },
+      },
+    };
+  }
+
+  #page<T extends ListingTypes>(items: Thing<T>[], params: URLSearchParams) {
+    const limit = Math.min(Number(params.get("limit") ?? 25) || 25, 100);
+    const after = params.get("after");
+    const before = params.get("before");
+    let start = 0;
+    if (after) {
+      start = items.findIndex((t) => fullname(t) === after) + 1;
+      if (start === 0) start = items.length;
+    } else if (before) {
+      const end = Math.max(items.findIndex((t) => fullname(t) === before), 0);
+      start = Math.max(end - limit, 0);
+      const page = items.slice(start, end);
+      return Response.json(listing(page, {
+        before: start > 0 ? fullname(page[0]) : null,
+        after: page.length ? fullname(page[page.length - 1]) : null,
+      }));
+    }
+    const page = items.slice(start, start + limit);
+    return Response.json(listing(page, {
+      before: start > 0 && page.length ? fullname(page[0]) : null,
+      after: start + limit < items.length
+        ? fullname(page[page.length - 1])
+        : null,
+    }));
+  }
+
+  #replies(parent: string, sort: string | null): Thing<Comment>[] {
+    let comments = [...this.comments.values()].filter((c) =>
+      c.parent_id === parent
+    );
+    comments = sort === "new"
+      ? this.#newest(comments)
+      : sort === "old"
+      ? this.#newest(comments).reverse()
+      : byScore(comments);
+    return comments.map((c) => {
+      const replies = this.#replies(c.name, sort);
+      return {
+        kind: "t1",
+        data: {
+          ...c,
+          replies: replies.length ? listing(replies) : "",
+        } as Comment,
+      };
+    });
+  }
+
+  #thing(fullname: string): Thing<ListingTypes> | undefined {
+    const [kind, id] = fullname.split("_");
+    if (kind === "t3" && this.links.has(id)) {
+      return { kind, data: this.links.get(id)! };
+    }
+    if (kind === "t1" && this.comments.has(id)) {
+      return { kind, data: this.comments.get(id)! };
+    }
+    if (kind === "t5") {
+      const data = [...this.subreddits.values()].find((s) => s.id === id);
+      if (data) return { kind, data };
+    }
+  }
+
+  #account(name: string) {
+    const karma = (items: Iterable<Link | Comment>) =>
+      [...items].filter((i) => i.author === name)
+        .reduce((sum, i) => sum + (i.score ?? 0), 0);
+    return {
+      name,
+      id: name.toLowerCase(),
+      link_karma: karma(this.links.values()),
+      comment_karma: karma(this.comments.values()),
+      created: 0,
+      created_utc: 0,
+      is_gold: false,
+      is_mod: false,
+      verified: true,
+    } as Account;
+  }
+
+  #userExists(name: string) {
+    return [...this.users.keys()].some((u) =>
+      u.toLowerCase() === name.toLowerCase()
+    );
+  }
+
+  /** Sort newest first, later additions first when created in the same second */
+  #newest<T extends { created_utc: number }>(items: T[]) {
+    return [...items].reverse().sort((a, b) => b.created_utc - a.created_utc);
+  }
+
+  #created() {
+    const now = Math.floor(Date.now() / 1000);
+    return { created: now, created_utc: now };
+  }
+
+  #id(prefix?: string) {
+    const id = (this.#nextId++).toString(36);
+    return prefix ? `${prefix}-${id}-${crypto.randomUUID()}` : id;
+  }
+}
+
+/** Media is uploaded here; over HTTP, pass the server as `uploadTarget` */
+const mediaHost = "reddit-uploaded-media.s3-accelerate.amazonaws.com";
+
+function fullname(thing: Thing<ListingTypes>) {
+  return (thing.data as { name: string }).name as Fullname<ListingTypes>;
+}
+
+function byScore<T extends { score: number | null }>(items: T[]) {
+  return [...items].sort((a, b) => (b.score ?? 0) - (a.score ?? 0));
+}
+
+function listing<T extends ListingTypes>(
+  children: Thing<T>[],
+  page: { before: string | null; after: string | null } = {
+    before: null,
+    after: null,
+  },
+): Thing<Listing<T>> {
+  return {
+    kind: "Listing",
+    data: {
+      before: page.before as Fullname<T> | null,
+      after: page.after as Fullname<T> | null,
+      dist: children.length,
+      modhash: "",
+      geo_filter: "",
+      children,
+    },
+  } as Thing<Listing<T>>;
+}
+
+function things(children: Thing<ListingTypes>[]) {
+  return { json: { errors: [], data: { things: children } } };
+}
+
+const statusTexts: Record<number, string> = {
+  400: "Bad Request",
+  401: "Unauthorized",
+  403: "Forbidden",
+  404: "Not Found",
+  429: "Too Many Requests",
+  500: "Internal Server Error",
+  502: "Bad Gateway",
+  503: "Service Unavailable",
+};
+
+function error(status: number, headers?: Record<string, string>) {
+  const message = statusTexts[status] ?? "Error";
+  return Response.json({ message, error: status }, {
+    status,
+    statusText: message,
+    headers,
+  });
+}
+
+function apiError(code: string, field: string) {
+  return Response.json({
+    json: { errors: [[code, code.toLowerCase().replaceAll("_", " "), field]] },
+  });
+}
@@ -0,0 +1,51 @@
+import type { MediaFile } from "./types.ts";
+
+/** The response of `api/media/asset`, which leases an upload to the media storage */
+export type UploadLease = {
+  args: {
+    /** The protocol relative URL of the upload target */
+    action: string;
+    /** The form fields to send with the file */
+    fields: { name: string; value: string }[];
+  };
+  asset: {
+    asset_id: string;
+    processing_state: string;
+    payload: { filepath: string };
+    websocket_url: string;
+  };
+};
+
+const mimeTypes: Record<string, string> = {
+  png: "image/png",
+  jpg: "image/jpeg",
+  jpeg: "image/jpeg",
+  gif: "image/gif",
+  webp: "image/webp",
+  mp4: "video/mp4",
+  mov: "video/quicktime",
+  webm: "video/webm",
+};
+
+/**
+ * Read a file to upload, guessing its type from the extension
+ *
+ * Reading a path requires `--allow-read`.
+ */
+export async function readMedia(file: MediaFile) {
+  const { data, name, type } = typeof file === "string"
+    ? { data: await Deno.readFile(file), name: file, type: undefined }
+    : file;
+  const filename = name.split(/[\\/]/).pop()!;
+  const extension = filename.split(".").pop()!.toLowerCase();
+  const mimetype = type || (data instanceof Blob ? data.type : "") ||
+    mimeTypes[extension];
+  if (!mimetype) {
+    throw new TypeError(`Unknown media type of ${filename}, pass its type`);
+  }
+  const blob = new Blob(
+    [data instanceof Blob ? data : new Uint8Array(data)],
+    { type: mimetype },
+  );
+  return { blob, filename, mimetype };
+}
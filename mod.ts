@@ -1,45 +1,154 @@
 import type {
   Account,
   AnyThing,
+  AutocompleteParams,
+  BanParams,
   Comment,
+  CommentTree,
   CommentTreeParams,
+  Conversation,
+  Distinguish,
+  ExpandParams,
+  FlairCsvResult,
+  FlairCsvRow,
+  FlairListItem,
+  FlairListParams,
+  FlairParams,
+  FlairTemplate,
+  FlairTemplateParams,
+  FlairType,
   Fullname,
   FullnameToType,
+  GalleryParams,
   HistoryParams,
+  InfoResult,
+  KarmaBreakdown,
   Link,
   Listing,
   ListingParams,
   ListingTypes,
+  MediaAsset,
+  MediaFile,
   Message,
+  ModAction,
+  ModListingParams,
+  ModLogParams,
+  More,
+  Multireddit,
+  MultiredditParams,
   OAuthScope,
   Permissions,
+  Prefs,
+  RemoveParams,
   SearchParams,
   SearchResult,
   SubmitParams,
+  SubmitResult,
+  SubmitText,
   Subreddit,
+  SubredditRules,
+  SubredditSettings,
+  SubredditSettingsParams,
+  SuspendedAccount,
   Thing,
   Trophy,
+  UserRelationship,
+  WikiEditParams,
   WikiPage,
+  WikiPageSettings,
+  WikiPermLevel,
+  WikiRevision,
 } from "./types.ts";
 import { EventEmitter } from "https://deno.land/x/event@2.0.1/mod.ts";
+import {
+  apiError,
+  AuthError,
+  HttpError,
+  httpError,
+  NetworkError,
+  parseErrors,
+  ValidationError,
+} from "./errors.ts";
+import {
+  BetterToken,
+  exchangeCode,
+  OauthClient,
+  requestToken,
+  revokeToken,
+  tokenEndpoint,
+  toToken,
+} from "./oauth.ts";
+import { ListingCursor, Paginator } from "./paginator.ts";
+import { Stream, StreamOptions } from "./stream.ts";
+import { checkQuery } from "./search.ts";
+import type { TokenStore } from "./token_store.ts";
+import { readMedia, UploadLease } from "./media.ts";
+import type { Transport } from "./transport.ts";
+import { validate, ValidationLevel } from "./validate.ts";
+import {
+  Priority,
+  ScheduleEvent,
+  Scheduler,
+  sharedScheduler,
+} from "./scheduler.ts";
+import { isComment } from "./tree.ts";
+import {
+  defaultRetryOptions,
+  isIdempotent,
+  isRetryable,
+  retryDelay,
+  RetryEvent,
+  RetryOptions,
+} from "./retry.ts";
+
+export * from "./errors.ts";
+export type { RetryEvent, RetryOptions } from "./retry.ts";
+export {
+  authorizeUrl,
+  generateState,
+  parseRedirect,
+  verifyState,
+} from "./oauth.ts";
+export type {
+  AuthorizationResult,
+  AuthorizeUrlParams,
+  BetterToken,
+} from "./oauth.ts";
+export { Paginator } from "./paginator.ts";
+export type { ListingCursor } from "./paginator.ts";
+export { Stream } from "./stream.ts";
+export * from "./tree.ts";
+export { query, SearchQuery } from "./search.ts";
+export type { SearchField } from "./search.ts";
+export {
+  JsonFileTokenStore,
+  KvTokenStore,
+  MemoryTokenStore,
+} from "./token_store.ts";
+export type { Kv, TokenStore } from "./token_store.ts";
+export type { StreamOptions, StreamPoll } from "./stream.ts";
+export { Scheduler } from "./scheduler.ts";
+export { Cassette } from "./transport.ts";
+export { FakeReddit } from "./fake_reddit.ts";
+export { validate } from "./validate.ts";
+export type { ValidationLevel } from "./validate.ts";
+export type { FakeRedditOptions, FakeRedditSeed } from "./fake_reddit.ts";
+export type { CassetteOptions, Interaction, Transport } from "./transport.ts";
+export type { Priority, ScheduleEvent, SchedulerOptions } from "./scheduler.ts";
 
 const version = "0.0.2";
 
-type Exact<A, B> = A extends B ? B extends A ? A
-  : never
-  : never;
-
+// Any init with credentials creates an authenticated client
 type RedditFactoryReturn<T extends RedditInit | undefined = undefined> =
-  T extends Exact<RedditOauthInit, T> ? RedditOauth : RedditAnon;
+  T extends { clientId: string } | { accessToken: string } ? RedditOauth
+    : RedditAnon;
 
 export class Reddit {
   static create<T extends RedditInit | undefined>(
     options?: T,
   ): RedditFactoryReturn<T> {
-    if (!options) {
-      return new RedditAnon() as RedditFactoryReturn<T>;
-    } else if (Object.keys(options).length === 1 && options.userAgent) {
-      return new RedditAnon(options.userAgent) as RedditFactoryReturn<T>;
+    if (!options || !(options.clientId || options.accessToken)) {
+      return new RedditAnon(options) as RedditFactoryReturn<T>;
     }
 
     if (options.clientId && options.clientSecret) {
@@ -47,7 +156,13 @@ export class Reddit {
         return new RedditOauth(options) as RedditFactoryReturn<T>;
       } else if (options.refreshToken) {
         return new RedditOauth(options) as RedditFactoryReturn<T>;
+      } else if (!options.username && !options.password) {
+        // Application-only, client_credentials grant
+        return new RedditOauth(options) as RedditFactoryReturn<T>;
       }
+    } else if (options.clientId) {
+      // Application-only, installed_client grant
+      return new RedditOauth(options) as RedditFactoryReturn<T>;
     } else if (options.accessToken) {
       console.warn(
         "Using an access token without credentials is not recommended.",
@@ -57,7 +172,39 @@ export class Reddit {
     throw new TypeError("Missing credentials.");
   }
 
-  static subreddit(name: string) {
+  /**
+   * Create a client from the code of an authorization redirect
+   * @example
+   * ```ts
+   * const { code } = parseRedirect(request.url, state);
+   * const reddit = await Reddit.fromCode({
+   *   clientId: "CLIENT_ID",
+   *   clientSecret: "CLIENT_SECRET",
+   *   redirectUri: "https://example.com/callback",
+   *   code,
+   * });
+   * ```
+   */
+  static async fromCode(
+    options: OauthClient & OauthClientOptions & {
+      code: string;
+      redirectUri: string;
+    },
+  ) {
+    const { code, redirectUri, ...client } = options;
+    const token = await exchangeCode(client, code, redirectUri);
+    const reddit = new RedditOauth({
+      ...client,
+      clientSecret: client.clientSecret ?? "",
+      // Temporary tokens can't be refreshed
+      refreshToken: token.refresh ?? "",
+      accessToken: token.access,
+    });
+    await reddit.saveToken(token);
+    return reddit;
+  }
+
+  static subreddit(name: string | string[]) {
     return new RedditAnon().subreddit(name);
   }
 
@@ -65,6 +212,14 @@ export class Reddit {
     return new RedditAnon().user(name);
   }
 
+  static multireddit(username: string, name: string) {
+    return new RedditAnon().multireddit(username, name);
+  }
+
+  static get subreddits() {
+    return new RedditAnon().subreddits;
+  }
+
   static get info() {
     const r = new RedditAnon();
     return r.info.bind(r);
@@ -84,6 +239,8 @@ export class Reddit {
 type Events = {
   error: [Error];
   tokenRefreshed: [BetterToken];
+  retry: [RetryEvent];
+  scheduled: [ScheduleEvent];
 };
 
 /**
@@ -91,105 +248,274 @@ type Events = {
  */
 class RedditAnon extends EventEmitter<Events> {
   protected userAgent: string;
-  protected baseUrl = "https://www.reddit.com";
-  constructor(userAgent?: string) {
+  protected baseUrl: string;
+  protected retry: RetryOptions;
+  protected scheduler: Scheduler;
+  protected priority: Priority;
+  protected transport: Transport;
+  protected validation: ValidationLevel;
+  constructor(options: ClientOptions = {}) {
     super();
-    this.userAgent = userAgent ?? `Snooland ${version}`;
+    this.userAgent = options.userAgent ?? `Snooland ${version}`;
+    this.baseUrl = options.baseUrl ?? "https://www.reddit.com";
+    this.retry = { ...defaultRetryOptions, ...options.retry };
+    // Anonymous requests are limited per IP address
+    this.scheduler = options.scheduler ?? sharedScheduler("anonymous");
+    this.priority = options.priority ?? "normal";
+    this.transport = options.transport ?? ((input, init) => fetch(input, init));
+    this.validation = options.validation ?? "off";
   }
 
-  protected rateLimit = {
-    reqRemaining: 60,
-    resetMs: Date.now() + 60_000,
-  };
+  /**
+   * Make a request; a failed request is also emitted as an `error` event
+   * @param priority The priority of the request in the queue of the scheduler
+   */
   protected async fetch<T extends unknown>(
     input: string | URL,
     options?: RequestInit,
+    priority = this.priority,
   ): Promise<T> {
-    // Check if rate limit is reached
-    if (this.rateLimit.reqRemaining === 0) {
-      // Log only once when the rate limit is reached
-      if (this.rateLimit.resetMs > Date.now()) {
-        console.info("Rate limit reached, waiting until reset");
+    try {
+      return await this.send<T>(input, options, priority);
+    } catch (error) {
+      super.emit("error", error as Error);
+      throw error;
+    }
+  }
+
+  /**
+   * Send a request, retrying failed idempotent requests with exponential backoff
+   */
+  protected async send<T extends unknown>(
+    input: string | URL,
+    options: RequestInit | undefined,
+    priority: Priority,
+  ): Promise<T> {
+    for (let attempt = 1;; attempt++) {
+      try {
+        return await this.request<T>(input, options, priority);
+      } catch (error) {
+        if (
+          attempt >= this.retry.attempts || !isRetryable(error) ||
+          !isIdempotent(options?.method, this.retry)
+        ) {
+          throw error;
+        }
+        const delay = retryDelay(attempt, this.retry, error);
+        if (delay === undefined) throw error;
+        super.emit("retry", {
+          endpoint: new URL(input, this.baseUrl).pathname,
+          attempt,
+          delay,
+          error: error as Error,
+        });
+        await new Promise((resolve) => setTimeout(resolve, delay));
       }
-      // Wait until the rate limit resets
-      await new Promise((resolve) => {
-        setTimeout(resolve, this.rateLimit.resetMs - Date.now());
-      });
     }
+  }
 
+  private async request<T extends unknown>(
+    input: string | URL,
+    options: RequestInit | undefined,
+    priority: Priority,
+  ): Promise<T> {
     let url: string | URL = new URL(input, this.baseUrl);
+    const endpoint = url.pathname;
     url = new URL(url.origin + url.pathname + ".json" + url.search);
     url.searchParams.set("raw_json", "1");
 
-    const res = await fetch(url, {
-      ...options,
-      headers: { ...options?.headers, "User-Agent": this.userAgent },
-    });
+    const queuedAt = Date.now();
+    const { res, text } = await this.scheduler.schedule(async () => {
+      super.emit("scheduled", {
+        endpoint,
+        priority,
+        waited: Date.now() - queuedAt,
+        queued: this.scheduler.queued,
+      });
+      const res = await this.transport(url, {
+        ...options,
+        headers: { ...options?.headers, "User-Agent": this.userAgent },
+      }).catch((error) => {
+        // fetch rejects with a TypeError on network failures
+        throw error instanceof TypeError
+          ? new NetworkError(endpoint, error)
+          : error;
+      });
+      this.scheduler.update(res.headers);
+      return { res, text: await res.text() };
+    }, priority);
+
+    let body: unknown = text;
+    try {
+      body = JSON.parse(text);
+    } catch {
+      // e.g. an HTML page of a proxy or an outage
+      if (res.ok && text.trim()) {
+        throw new HttpError(endpoint, res.status, res.statusText, [], text);
+      }
+    }
 
-    // TODO: handle http errors
     if (!res.ok) {
-      super.emit("error", new Error(res.statusText));
+      throw httpError(endpoint, res, body);
     }
+    // api_type=json endpoints report errors with a 200 status
+    const errors = (body as { json?: { errors?: unknown[] } })?.json?.errors;
+    if (errors?.length) {
+      throw apiError(endpoint, res.status, parseErrors(body));
+    }
+    if (this.validation !== "off") this.check(endpoint, res.status, body);
 
-    // Update rate limit info
-    this.rateLimit.reqRemaining = Number(
-      res.headers.get("x-ratelimit-remaining"),
-    );
-    this.rateLimit.resetMs = Number(res.headers.get("x-ratelimit-reset"));
+    return body as T;
+  }
+
+  /**
+   * Check a response against the types, depending on the validation level
+   */
+  private check(endpoint: string, status: number, body: unknown) {
+    const issues = validate(body);
+    if (!issues.length) return;
+    const error = new ValidationError(endpoint, status, issues);
+    if (this.validation === "strict") throw error;
+    console.warn(error.message);
+  }
+
+  private paginate<T extends ListingTypes>(
+    endpoint: string,
+    params?: Record<string, unknown> & ListingParams,
+    callback?: (items: T[]) => void,
+    key?: (item: T) => string,
+  ) {
+    return this.resume<T>(Paginator.cursor(endpoint, params), callback, key);
+  }
 
-    return res.json();
+  /**
+   * Continue a listing from a saved cursor
+   * @param cursor The `cursor` of a previous listing
+   * @param callback A callback that is called with each page of items
+   * @param key Identify an item, its `name` by default, which is the fullname of most things
+   */
+  resume<T extends ListingTypes>(
+    cursor: ListingCursor,
+    callback?: (items: T[]) => void,
+    key: (item: T) => string = (item) => (item as { name: string }).name,
+  ) {
+    return new Paginator<T>(
+      async (endpoint, params) => {
+        const { data } = await this.fetch<Thing<Listing<T>>>(
+          `${endpoint}?${params}`,
+        );
+        return {
+          items: data.children.map((child) => child.data),
+          after: data.after,
+          before: data.before,
+        };
+      },
+      key,
+      cursor,
+      callback,
+    );
   }
 
-  private async paginate<T extends ListingTypes>(
-    endpoint: string | URL,
-    params?: Record<string, unknown>,
+  /**
+   * Page through a listing whose items are not wrapped in things,
+   * like banned users or wiki revisions
+   */
+  protected paginatePlain<T extends ListingTypes>(
+    endpoint: string,
+    params: ListingParams | undefined,
+    key: (item: T) => string,
     callback?: (items: T[]) => void,
   ) {
-    const items: T[] = [];
-    const url = new URL(endpoint, this.baseUrl);
-    url.search = new URLSearchParams(params as any).toString();
-    let limit = (params?.limit || 100) as number;
-    let json;
-    do {
-      json = await this.fetch(url) as Thing<Listing<T>>;
-      const newItems = json.data.children.map((c) => c.data);
-      items.push(...newItems);
-      if (callback) callback(newItems);
-      if (!json.data.after) break;
-      url.searchParams.set("after", json.data.after);
-    } while ((limit -= 100) > 0);
-    return items;
+    return new Paginator<T>(
+      async (endpoint, query) => {
+        const { data } = await this.fetch<PlainListing<T>>(
+          `${endpoint}?${query}`,
+        );
+        return {
+          items: data.children,
+          after: data.after,
+          before: data.before,
+        };
+      },
+      key,
+      Paginator.cursor(endpoint, params),
+      callback,
+    );
   }
 
   // Returns a generic paginated function
   protected paginated<
     T extends ListingTypes,
     P extends ListingParams = ListingParams,
-  >(endpoint: string) {
+  >(endpoint: string, key?: (item: T) => string) {
     return (
       /**
        * @param params Listing query parameters
        * @param callback A callback that is called with each page of items
+       * @returns A listing that can be awaited or iterated over with `for await`
        */
       (
         params?: P,
         callback?: (items: T[]) => void,
-      ) => this.paginate<T>(endpoint, params, callback)
+      ) => this.paginate<T>(endpoint, params, callback, key)
     );
   }
 
   /**
-   * Get info about a thing(s)
+   * Get info about things, in batches of 100
    * @param fullnames A list of fullnames
-   * @returns A list of things with the given fullnames
+   * @returns The things in the order of the fullnames, and the fullnames that weren't found or were deleted
    */
   async info<T extends Fullname<Comment | Subreddit | Link>>(
     ...fullnames: T[]
   ) {
-    const url = new URL("api/info", this.baseUrl);
-    url.searchParams.set("id", fullnames.join(","));
-    const thing = await this.fetch(url) as Thing<Listing<FullnameToType[T]>>;
-    return thing.data.children.map((c) => c.data);
+    const unique = [...new Set(fullnames)];
+    const things = await this.infoBatches<FullnameToType[T]>("id", unique);
+    const byName = new Map(things.map((thing) => [thing.name, thing]));
+    return infoResult(unique, (fullname) => byName.get(fullname));
+  }
+
+  /**
+   * Get every post of a link
+   * @param url The URL the posts link to
+   */
+  infoByUrl(url: string, params?: ListingParams) {
+    return this.paginate<Link>("api/info", { ...params, url });
+  }
+
+  /**
+   * Get info about subreddits by their names, in batches of 100
+   * @returns The subreddits in the order of the names, and the names that weren't found
+   */
+  async infoBySubreddit(...names: string[]) {
+    const unique = [...new Set(names)];
+    const subreddits = await this.infoBatches<Subreddit>("sr_name", unique);
+    const byName = new Map(
+      subreddits.map((s) => [s.display_name.toLowerCase(), s]),
+    );
+    return infoResult(unique, (name) => byName.get(name.toLowerCase()));
+  }
+
+  /**
+   * Look up things with `api/info`, which ignores everything after the first 100
+   */
+  private async infoBatches<T extends ListingTypes>(
+    param: "id" | "sr_name",
+    values: string[],
+  ) {
+    const batches = [];
+    for (let i = 0; i < values.length; i += 100) {
+      batches.push(values.slice(i, i + 100));
+    }
+    // The scheduler limits how many batches are fetched at once
+    const pages = await Promise.all(
+      batches.map((batch) =>
+        this.fetch<Thing<Listing<T>>>(
+          `api/info?${new URLSearchParams({ [param]: batch.join(",") })}`,
+        )
+      ),
+    );
+    return pages.flatMap((page) => page.data.children.map((c) => c.data));
   }
 
   /**
@@ -209,21 +535,189 @@ class RedditAnon extends EventEmitter<Events> {
     ) as [Link, ...Comment[]];
   }
 
+  /**
+   * Get the complete comment tree for a given link, expanding `More` nodes
+   * @param linkId The id or fullname of the link
+   * @param options Comment tree parameters and a budget for the expansion
+   * @returns The link and its top-level comments, with replies nested in `Comment.replies`
+   */
+  async commentTree(
+    linkId: string | Fullname<Link>,
+    options: ExpandParams = {},
+  ): Promise<CommentTree> {
+    const { maxRequests = Infinity, maxDepth = Infinity, ...params } = options;
+    const id = linkId.split("_").pop()!;
+    const query = new URLSearchParams(params as Record<string, string>);
+    const [links, comments] = await this.fetch<
+      [Thing<Listing<Link>>, Thing<Listing<Comment | More>>]
+    >(`comments/${id}?${query}`);
+    const tree: CommentTree = {
+      link: links.data.children[0].data,
+      comments: comments.data.children.map((c) => c.data),
+    };
+
+    const byName = new Map<string, ExpandedComment>();
+    const queue: More[] = [];
+    const index = (items: (Comment | More)[]) => {
+      for (const item of items) {
+        if (!isComment(item)) {
+          if (item.depth <= maxDepth) queue.push(item);
+          continue;
+        }
+        item.replies = item.replies || emptyListing();
+        byName.set(item.name, item as ExpandedComment);
+        index(item.replies.data.children.map((c) => c.data));
+      }
+    };
+    const attach = (items: (Comment | More)[]) => {
+      for (const item of items) {
+        const parent = byName.get(item.parent_id);
+        if (parent) {
+          parent.replies.data.children.push(thingOf(item));
+        } else {
+          tree.comments.push(item);
+        }
+        index([item]);
+      }
+    };
+    const detach = (more: More) => {
+      const siblings = byName.get(more.parent_id)?.replies.data.children
+        .map((c) => c.data) ?? tree.comments;
+      const i = siblings.indexOf(more);
+      if (i === -1) return;
+      const parent = byName.get(more.parent_id);
+      if (parent) parent.replies.data.children.splice(i, 1);
+      else tree.comments.splice(i, 1);
+    };
+    index(tree.comments);
+
+    for (let requests = 0; queue.length && requests < maxRequests; requests++) {
+      const more = queue[0];
+      if (!more.children.length) {
+        // "Continue this thread" links to the thread of the parent comment
+        queue.shift();
+        detach(more);
+        const focus = more.parent_id.split("_").pop()!;
+        query.set("comment", focus);
+        const [, thread] = await this.fetch<
+          [Thing<Listing<Link>>, Thing<Listing<Comment | More>>]
+        >(`comments/${id}?${query}`);
+        const root = thread.data.children[0]?.data as Comment | undefined;
+        if (!root?.replies) continue;
+        attach(root.replies.data.children.map((c) => c.data));
+        continue;
+      }
+
+      // Batch up to 100 children of several More nodes in one request
+      const batch: string[] = [];
+      while (queue.length && queue[0].children.length && batch.length < 100) {
+        const next = queue[0];
+        const taken = next.children.splice(0, 100 - batch.length);
+        batch.push(...taken);
+        next.count = Math.max(0, next.count - taken.length);
+        if (next.children.length) break;
+        queue.shift();
+        detach(next);
+      }
+      const res = await this.fetch<
+        { json: { data: { things: Thing<Comment | More>[] } } }
+      >(
+        `api/morechildren?${new URLSearchParams({
+          api_type: "json",
+          link_id: `t3_${id}`,
+          children: batch.join(","),
+          limit_children: "false",
+          ...params.sort && { sort: params.sort },
+        })}`,
+      );
+      attach(res.json.data.things.map((c) => c.data));
+    }
+    return tree;
+  }
+
   /**
    * Search across reddit
-   * Doesn't work on comments for some reason
+   * @example
+   * ```ts
+   * const links = await reddit.search({
+   *   q: query.and(query.title("deno"), query.self(true)),
+   *   sort: "new",
+   * });
+   * const subreddits = await reddit.search({ q: "deno", type: "sr" });
+   * ```
    */
   search<T extends SearchParams>(params: T) {
+    checkQuery(params.q);
     return this.paginate<SearchResult<T["type"]>>("search", params);
   }
 
+  /**
+   * Get live streams of new items
+   */
+  get stream() {
+    return new Streams(this.streamListing.bind(this));
+  }
+
+  protected streamListing<T extends ListingTypes>(
+    endpoint: string,
+    options?: StreamOptions,
+  ) {
+    return new Stream<T>(
+      // Streams poll in the background
+      (params) => this.fetch(`${endpoint}?${params}`, undefined, "low"),
+      () => this.scheduler.budget,
+      options,
+    );
+  }
+
+  /**
+   * Discover subreddits
+   */
+  get subreddits() {
+    return new RedditAnon.Subreddits(this);
+  }
+  private static Subreddits = class {
+    constructor(private r: RedditAnon) {}
+
+    get popular() {
+      return this.r.paginated<Subreddit>("subreddits/popular");
+    }
+
+    get new() {
+      return this.r.paginated<Subreddit>("subreddits/new");
+    }
+
+    /**
+     * Get the subreddits new users are subscribed to
+     */
+    get default() {
+      return this.r.paginated<Subreddit>("subreddits/default");
+    }
+
+    /**
+     * Find subreddits whose name starts with a prefix
+     * @param query The prefix of the name
+     */
+    async autocomplete(query: string, params: AutocompleteParams = {}) {
+      const res = await this.r.fetch<Thing<Listing<Subreddit>>>(
+        `api/subreddit_autocomplete_v2?${new URLSearchParams({
+          query,
+          include_over_18: String(params.nsfw ?? false),
+          include_profiles: "false",
+          limit: String(params.limit ?? 5),
+        })}`,
+      );
+      return res.data.children.map((c) => c.data);
+    }
+  };
+
   /**
    * Get subreddit accessors
-   * @param name The name of the subreddit
+   * @param name The name of the subreddit, or several names to combine their listings
    * @returns An object representing the subreddit endpoints
    */
-  subreddit(name: string) {
-    return new RedditAnon.Subreddit(this, name);
+  subreddit(name: string | string[]) {
+    return new RedditAnon.Subreddit(this, combine(name));
   }
   private static Subreddit = class {
     constructor(private r: RedditAnon, private name: string) {}
@@ -260,9 +754,10 @@ class RedditAnon extends EventEmitter<Events> {
      * Search the subreddit
      */
     search<T extends SearchParams>(params: T) {
+      checkQuery(params.q);
       return this.r.paginate<SearchResult<T["type"]>>(
-        `${this.name}/search`,
-        params,
+        `r/${this.name}/search`,
+        { ...params, restrict_sr: true },
       );
     }
 
@@ -283,21 +778,65 @@ class RedditAnon extends EventEmitter<Events> {
       return res.then((r) => r.data);
     }
 
+    get rules() {
+      return this.r.fetch<SubredditRules>(`r/${this.name}/about/rules`);
+    }
+
+    /**
+     * Get the sidebar, in markdown
+     */
+    get sidebar() {
+      return this.about.then((about) => about.description);
+    }
+
+    /**
+     * Get the text shown on the submission page
+     */
+    get submitText() {
+      return this.r.fetch<SubmitText>(`r/${this.name}/api/submit_text`);
+    }
+
+    /**
+     * Get the wiki; awaiting it gets the index page
+     */
     get wiki() {
-      const res = this.r.fetch(`r/${this.name}/wiki`) as Promise<
-        Thing<WikiPage>
-      >;
-      return res.then((r) => r.data);
+      return this.r.wikiOf(this.name);
     }
   };
 
+  protected wikiOf(subreddit: string) {
+    return new Wiki(subreddit, {
+      fetch: (endpoint) => this.fetch(endpoint),
+      paginate: (endpoint, params, key) =>
+        this.paginatePlain(endpoint, params, key),
+    });
+  }
+
+  /**
+   * Get multireddit accessors; only public multireddits of other users can be read
+   * @param username The owner of the multireddit
+   * @param name The name of the multireddit
+   */
+  multireddit(username: string, name: string) {
+    return new Multi(username, name, {
+      fetch: (endpoint, init) => this.fetch(endpoint, init),
+      paginate: (endpoint, params, callback) =>
+        this.resume(Paginator.cursor(endpoint, params), callback),
+    });
+  }
+
   user(name: string) {
     return new RedditAnon.User(this, name);
   }
   private static User = class {
     constructor(private r: RedditAnon, private name: string) {}
+    /**
+     * Get info about the user; suspended accounts only have a name, check `is_suspended`
+     */
     get about() {
-      const res = this.r.fetch<Thing<Account>>(`user/${this.name}/about`);
+      const res = this.r.fetch<Thing<Account | SuspendedAccount>>(
+        `user/${this.name}/about`,
+      );
       return res.then((r) => r.data);
     }
 
@@ -322,9 +861,76 @@ class RedditAnon extends EventEmitter<Events> {
       return this.r.paginated<Link>(`user/${this.name}/submitted`);
     }
 
+    /**
+     * Get the user's public multireddits
+     */
+    get multireddits() {
+      const res = this.r.fetch<Thing<Multireddit>[]>(
+        `api/multi/user/${this.name}`,
+      );
+      return res.then((r) => r.map((c) => c.data));
+    }
+
     get trophies() {
-      const res = this.r.fetch<Thing<Trophy>>(`user/${this.name}/trophies`);
-      return res.then((r) => r.data);
+      const res = this.r.fetch<{ data: { trophies: { data: Trophy }[] } }>(
+        `user/${this.name}/trophies`,
+      );
+      return res.then((r) => r.data.trophies.map((t) => t.data));
+    }
+
+    /**
+     * Get the posts and comments the user has upvoted
+     *
+     * **Only visible to the user, unless their votes are public; fails with a `ForbiddenError` otherwise**
+     * @scopes history
+     */
+    get upvoted() {
+      return this.r.paginated<Link | Comment, HistoryParams>(
+        `user/${this.name}/upvoted`,
+      );
+    }
+
+    /**
+     * Get the posts and comments the user has downvoted
+     *
+     * **Only visible to the user, unless their votes are public; fails with a `ForbiddenError` otherwise**
+     * @scopes history
+     */
+    get downvoted() {
+      return this.r.paginated<Link | Comment, HistoryParams>(
+        `user/${this.name}/downvoted`,
+      );
+    }
+
+    /**
+     * Get the posts the user has hidden
+     *
+     * **Only visible to the user; fails with a `ForbiddenError` otherwise**
+     * @scopes history
+     */
+    get hidden() {
+      return this.r.paginated<Link, HistoryParams>(`user/${this.name}/hidden`);
+    }
+
+    /**
+     * Get the posts and comments the user has saved
+     *
+     * **Only visible to the user; fails with a `ForbiddenError` otherwise**
+     * @scopes history
+     */
+    get saved() {
+      return this.r.paginated<Link | Comment, HistoryParams>(
+        `user/${this.name}/saved`,
+      );
+    }
+
+    /**
+     * Get the posts and comments of the user that received awards
+     */
+    get gilded() {
+      return this.r.paginated<Link | Comment, HistoryParams>(
+        `user/${this.name}/gilded`,
+      );
     }
   };
 }
@@ -334,12 +940,23 @@ class RedditOauth extends RedditAnon {
   private readonly secret?: string;
   private readonly username?: string;
   private readonly password?: string;
-  private readonly appType: "script" | "web" | undefined;
+  private readonly deviceId: string;
+  private readonly appType:
+    | "script"
+    | "web"
+    | "application"
+    | "installed"
+    | undefined;
+  private readonly authUrl?: string;
+  private readonly uploadTarget?: string;
   private token?: BetterToken;
-  private tokenStatus: Promise<any> | undefined;
+  private tokenStatus: Promise<unknown> | undefined;
+  private readonly store?: TokenStore;
+  private readonly storeKey: string;
+  private loaded?: Promise<void>;
 
   constructor(options: RedditInit) {
-    super(options.userAgent);
+    super(options);
     this.id = options.clientId;
     this.secret = options.clientSecret;
     this.username = options.username;
@@ -349,293 +966,1985 @@ class RedditOauth extends RedditAnon {
       refresh: options.refreshToken,
       expiry: options.tokenExpiry,
     };
-    this.baseUrl = "https://oauth.reddit.com";
+    this.baseUrl = options.baseUrl ?? "https://oauth.reddit.com";
+    this.authUrl = options.authUrl;
+    this.uploadTarget = options.uploadTarget;
+    this.deviceId = options.deviceId ?? "DO_NOT_TRACK_THIS_DEVICE";
     this.appType = options.password
       ? "script"
-      : options.refreshToken
+      : options.refreshToken !== undefined
       ? "web"
+      : options.clientSecret
+      ? "application"
+      : options.clientId
+      ? "installed"
       : undefined;
+    this.store = options.tokenStore;
+    this.storeKey = options.tokenKey ??
+      `${this.id}:${
+        this.username ??
+          (this.appType === "installed" ? this.deviceId : this.appType)
+      }`;
+    // Reddit limits the requests per client and user, so each user of a web app gets its own queue
+    const user = this.username || options.refreshToken ||
+      options.accessToken ||
+      (this.appType === "installed" ? this.deviceId : this.appType);
+    this.scheduler = options.scheduler ??
+      sharedScheduler(options.tokenKey ?? `${this.id}:${user}`);
   }
 
   setToken(token: BetterToken) {
     this.token = token;
   }
 
+  /**
+   * Use a new token and save it to the token store, replacing the stored one
+   */
+  async saveToken(token: BetterToken) {
+    this.setToken(token);
+    this.loaded = Promise.resolve();
+    await this.store?.set(this.storeKey, token);
+  }
+
+  /**
+   * Revoke the refresh token, or the access token if there is none,
+   * after which the client can no longer be used
+   */
+  async revoke() {
+    const { access, refresh } = this.token ?? {};
+    if (refresh) {
+      await revokeToken(this.client, refresh, "refresh_token");
+    } else if (access) {
+      await revokeToken(this.client, access, "access_token");
+    }
+    this.token = undefined;
+    await this.store?.delete(this.storeKey);
+  }
+
+  /**
+   * Load the stored token if it belongs to this client or is newer than its token,
+   * e.g. when another process refreshed it
+   */
+  private async loadToken() {
+    const stored = await this.store?.get(this.storeKey);
+    if (!stored) return;
+    const current = this.token;
+    const sameGrant = !!current?.refresh && stored.refresh === current.refresh;
+    const newer = !current?.expiry ||
+      (!!stored.expiry && stored.expiry > current.expiry);
+    if (sameGrant || newer) this.token = stored;
+  }
+
+  /**
+   * Get a new token; with a store, only one process refreshes at a time
+   * so that they don't invalidate each other's refresh token
+   */
+  private async renewToken(rejected?: string) {
+    const store = this.store;
+    if (!store) return this.getNewToken();
+    await store.lock(this.storeKey, async () => {
+      // Another process may have renewed the token while this one waited for the lock
+      const stored = await store.get(this.storeKey);
+      if (stored && !isExpired(stored) && stored.access !== rejected) {
+        this.token = stored;
+        return;
+      }
+      if (stored?.refresh) {
+        this.token = { ...this.token, refresh: stored.refresh };
+      }
+      await this.getNewToken();
+      if (this.token) await store.set(this.storeKey, this.token);
+    });
+  }
+
+  private get client(): OauthClient {
+    return {
+      clientId: this.id!,
+      clientSecret: this.secret,
+      userAgent: this.userAgent,
+      authUrl: this.authUrl,
+      transport: this.transport,
+    };
+  }
+
   private async getNewToken() {
     if (this.appType === "web") {
       if (!this.token?.refresh) {
-        return super.emit(
-          "error",
-          new Error("Access token expired; excpected a refresh token."),
+        throw new AuthError(
+          tokenEndpoint,
+          401,
+          "Access token expired; expected a refresh token",
         );
       }
-      const response = await fetch(
-        "https://www.reddit.com/api/v1/access_token",
-        {
-          method: "POST",
-          headers: {
-            "Content-Type": "application/x-www-form-urlencoded",
-            Authorization: `Basic ${btoa(`${this.id}:${this.secret}`)}`,
-          },
-          body: new URLSearchParams({
-            grant_type: "refresh_token",
-            refresh_token: this.token.refresh,
-          }),
-        },
-      );
-      const json = await response.json() as OauthTokenResponseBody;
-      if ("error" in json) {
-        return super.emit("error", new Error(json.error as string));
-      }
-      this.setToken({
-        access: json.access_token,
-        refresh: this.token.refresh,
-        expiry: new Date(Date.now() + json.expires_in * 1000),
+      const json = await requestToken(this.client, {
+        grant_type: "refresh_token",
+        refresh_token: this.token.refresh,
       });
+      this.setToken(toToken(json, this.token.refresh));
       super.emit("tokenRefreshed", this.token);
       return json;
     } else if (this.appType === "script") {
       // Shorthand oauth flow for bots and personal scripts which don't need oauth callback
       if (!this.username || !this.password) {
-        throw new Error("Username and password are required for script apps");
-      }
-      const response = await fetch(
-        "https://www.reddit.com/api/v1/access_token",
-        {
-          method: "POST",
-          headers: {
-            "Content-Type": "application/x-www-form-urlencoded",
-            Authorization: `Basic ${btoa(`${this.id}:${this.secret}`)}`,
-          },
-          body: new URLSearchParams({
-            grant_type: "password",
-            username: this.username,
-            password: this.password,
-          }),
-        },
-      );
-      const json = await response.json() as OauthTokenResponseBody;
-      if ("error" in json) {
-        return super.emit("error", new Error(json.error as string));
+        throw new AuthError(
+          tokenEndpoint,
+          401,
+          "Username and password are required for script apps",
+        );
       }
+      const json = await requestToken(this.client, {
+        grant_type: "password",
+        username: this.username,
+        password: this.password,
+      });
       // No refresh token for script apps
-      this.setToken({
-        access: json.access_token,
-        expiry: new Date(Date.now() + json.expires_in * 1000),
+      this.setToken(toToken(json));
+      return json;
+    } else if (this.appType === "application") {
+      // Application-only access for confidential clients, without a user context
+      const json = await requestToken(this.client, {
+        grant_type: "client_credentials",
+      });
+      const token = toToken(json);
+      this.setToken(token);
+      super.emit("tokenRefreshed", token);
+      return json;
+    } else if (this.appType === "installed") {
+      // Application-only access for public clients, which have no secret
+      const json = await requestToken(this.client, {
+        grant_type: "https://oauth.reddit.com/grants/installed_client",
+        device_id: this.deviceId,
       });
+      const token = toToken(json);
+      this.setToken(token);
+      super.emit("tokenRefreshed", token);
       return json;
     }
   }
 
-  protected async fetch<T extends unknown>(
+  /**
+   * Send a request with the access token, renewing it when needed
+   */
+  protected async send<T extends unknown>(
     input: string | URL,
-    options?: RequestInit,
+    options: RequestInit | undefined,
+    priority: Priority,
   ): Promise<T> {
-    if (!this.token?.expiry || Date.now() > this.token.expiry.getTime()) {
+    this.loaded ??= this.loadToken().catch((error) => {
+      this.loaded = undefined;
+      throw error;
+    });
+    await this.loaded;
+    if (isExpired(this.token)) {
       console.info("Getting new token");
-      this.tokenStatus = new Promise((resolve) =>
-        this.getNewToken().then(resolve)
-      );
+      this.renew();
     }
     await this.tokenStatus;
-    return super.fetch(input, {
-      ...options,
-      headers: {
-        ...options?.headers,
-        Authorization: `bearer ${this.token!.access}`,
-      },
-    });
+    const access = this.accessToken(input);
+    const authorized = (access: string) =>
+      super.send<T>(input, {
+        ...options,
+        headers: { ...options?.headers, Authorization: `bearer ${access}` },
+      }, priority);
+    try {
+      return await authorized(access);
+    } catch (error) {
+      // Tokens can be revoked or expire before their expiry, renew once and try again
+      if (
+        !(error instanceof AuthError) || error.status !== 401 || !this.appType
+      ) {
+        throw error;
+      }
+      // Unless a concurrent request already renewed it
+      if (this.token?.access === access) this.renew(access);
+      await this.tokenStatus;
+      return authorized(this.accessToken(input));
+    }
   }
 
   /**
-   * Get the user's account details
-   * @returns a Promise that resolves to an Account object
-   * @scopes identity
+   * Get the access token, which is missing after `revoke()`,
+   * or when a client without credentials has none
    */
-  get me() {
-    return this.fetch<Account>("api/v1/me");
+  private accessToken(input: string | URL) {
+    const access = this.token?.access;
+    if (!access) {
+      throw new AuthError(
+        new URL(input, this.baseUrl).pathname,
+        401,
+        "No access token; authorize the client again",
+      );
+    }
+    return access;
   }
 
   /**
-   * Get the user's authorized OAuth2 scopes
+   * Renew the token; concurrent requests share a single renewal
+   * @param rejected The access token Reddit rejected, which is renewed even if it is stored
    */
-  get scopes() {
-    return this.fetch<Permissions>("api/v1/scopes");
+  private renew(rejected?: string) {
+    this.tokenStatus ??= this.renewToken(rejected).finally(() => {
+      this.tokenStatus = undefined;
+    });
   }
 
   /**
-   * Get the user's saved posts and comments
+   * Reject early when the token is known to lack a scope
    */
-  get saved() {
-    return this.paginated<Link | Comment, HistoryParams>(`user/me/saved`);
+  private requireScope(endpoint: string, scope: OAuthScope) {
+    const scopes = this.token?.scopes;
+    if (!scopes || scopes === "*" || scopes.includes(scope)) return;
+    throw new AuthError(`/${endpoint}`, 403, `Missing OAuth scope "${scope}"`, [
+      ["INSUFFICIENT_SCOPE", `The token does not have the "${scope}" scope`],
+    ]);
   }
 
   /**
-   * Get the user's hidden posts and comments
+   * Make a form-encoded POST request, leaving out undefined parameters
    */
-  get hidden() {
-    return this.paginated<Link | Comment, HistoryParams>(`user/me/hidden`);
+  protected post<T extends unknown>(
+    endpoint: string,
+    params: Record<string, string | number | boolean | undefined> = {},
+  ) {
+    const body = new URLSearchParams();
+    for (const [key, value] of Object.entries(params)) {
+      if (value !== undefined) body.set(key, String(value));
+    }
+    return this.fetch<T>(endpoint, { method: "POST", body });
   }
 
   /**
-   * Get the user's gilded posts and comments
+   * Get the user's account details
+   * @returns a Promise that resolves to an Account object
+   * @scopes identity
    */
-  get gilded() {
-    return this.paginated<Link | Comment, HistoryParams>(`user/me/gilded`);
+  get me() {
+    return this.fetch<Account>("api/v1/me");
   }
 
   /**
-   * Get the comments and posts the user has upvoted
+   * Get the user's karma in each subreddit
+   * @scopes mysubreddits
    */
-  get upvoted() {
+  get karma() {
+    const res = this.fetch<{ data: KarmaBreakdown[] }>("api/v1/me/karma");
+    return res.then((r) => r.data);
+  }
+
+  /**
+   * Get the user's trophies
+   * @scopes identity
+   */
+  get trophies() {
+    const res = this.fetch<{ data: { trophies: { data: Trophy }[] } }>(
+      "api/v1/me/trophies",
+    );
+    return res.then((r) => r.data.trophies.map((t) => t.data));
+  }
+
+  /**
+   * Get the user's preferences
+   * @scopes identity
+   */
+  get prefs() {
+    return this.fetch<Prefs>("api/v1/me/prefs");
+  }
+
+  /**
+   * Update some of the user's preferences, keeping the others
+   * @returns The updated preferences
+   * @scopes account
+   */
+  updatePrefs(prefs: Partial<Prefs>) {
+    return this.fetch<Prefs>("api/v1/me/prefs", {
+      method: "PATCH",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(prefs),
+    });
+  }
+
+  /**
+   * Get the user's friends
+   * @scopes mysubreddits
+   */
+  get friends() {
+    const res = this.fetch<UserList>("prefs/friends");
+    return res.then(userList);
+  }
+
+  /**
+   * Add a friend, or update the note of a friend
+   * @param note A note about the friend, only available to Reddit Premium users
+   * @scopes subscribe
+   */
+  async addFriend(username: string, note?: string) {
+    await this.fetch(`api/v1/me/friends/${username}`, {
+      method: "PUT",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ name: username, note }),
+    });
+  }
+
+  /**
+   * @scopes subscribe
+   */
+  async removeFriend(username: string) {
+    await this.fetch(`api/v1/me/friends/${username}`, { method: "DELETE" });
+  }
+
+  /**
+   * Get the users the user has blocked
+   * @scopes mysubreddits
+   */
+  get blocked() {
+    const res = this.fetch<UserList>("prefs/blocked");
+    return res.then(userList);
+  }
+
+  /**
+   * Block a user, hiding their posts, comments and messages
+   * @scopes account
+   */
+  async block(username: string) {
+    await this.post<void>("api/block_user", { name: username });
+  }
+
+  /**
+   * @scopes account
+   */
+  async unblock(username: string) {
+    const { id } = await this.me;
+    await this.post<void>("api/unfriend", {
+      name: username,
+      type: "enemy",
+      container: `t2_${id}`,
+    });
+  }
+
+  /**
+   * Get the user's authorized OAuth2 scopes
+   */
+  get scopes() {
+    return this.fetch<Permissions>("api/v1/scopes");
+  }
+
+  /**
+   * Get the user's saved posts and comments
+   */
+  get saved() {
+    return this.paginated<Link | Comment, HistoryParams>(`user/me/saved`);
+  }
+
+  /**
+   * Get the user's hidden posts and comments
+   */
+  get hidden() {
+    return this.paginated<Link | Comment, HistoryParams>(`user/me/hidden`);
+  }
+
+  /**
+   * Get the user's gilded posts and comments
+   */
+  get gilded() {
+    return this.paginated<Link | Comment, HistoryParams>(`user/me/gilded`);
+  }
+
+  /**
+   * Get the comments and posts the user has upvoted
+   */
+  get upvoted() {
     return this.paginated<Link | Comment, HistoryParams>(`user/me/upvoted`);
   }
 
   /**
-   * Get the comments and posts the user has downvoted
+   * Get the comments and posts the user has downvoted
+   */
+  get downvoted() {
+    return this.paginated<Link | Comment, HistoryParams>(`user/me/downvoted`);
+  }
+
+  /**
+   * Get live streams of new items, including the inbox
+   */
+  get stream() {
+    return new AuthStreams(this.streamListing.bind(this));
+  }
+
+  /**
+   * Discover subreddits and get the user's subreddits
+   */
+  get subreddits() {
+    return Object.assign(super.subreddits, {
+      /**
+       * The subreddits the user subscribes to, moderates or contributes to
+       * @scopes mysubreddits
+       */
+      mine: new RedditOauth.MySubreddits(this),
+    });
+  }
+
+  private static MySubreddits = class {
+    constructor(private r: RedditOauth) {}
+
+    get subscriber() {
+      return this.r.paginated<Subreddit>("subreddits/mine/subscriber");
+    }
+
+    get moderator() {
+      return this.r.paginated<Subreddit>("subreddits/mine/moderator");
+    }
+
+    /**
+     * Get the subreddits the user is an approved user of
+     */
+    get contributor() {
+      return this.r.paginated<Subreddit>("subreddits/mine/contributor");
+    }
+  };
+
+  /**
+   * Get subreddit accessors, including moderator endpoints
+   * @param name The name of the subreddit, or several names to combine their listings
+   * @returns An object representing the subreddit endpoints
+   */
+  subreddit(name: string | string[]) {
+    name = combine(name);
+    const names = name.split("+");
+    const subreddit = Object.assign(super.subreddit(name), {
+      /**
+       * Moderator endpoints of the subreddit
+       * @scopes modposts, modlog, modcontributors
+       */
+      mod: new RedditOauth.Moderation(this, name),
+      /**
+       * Flair endpoints of the subreddit
+       * @scopes flair, modflair
+       */
+      flair: new RedditOauth.Flair(this, name),
+      /**
+       * @scopes subscribe
+       */
+      subscribe: () => this.subscribe(...names),
+      /**
+       * @scopes subscribe
+       */
+      unsubscribe: () => this.unsubscribe(...names),
+    });
+    // `wikiOf` returns an editor for authenticated clients
+    return subreddit as typeof subreddit & { readonly wiki: WikiEditor };
+  }
+
+  /**
+   * Get the user's multireddits, including private ones
+   * @scopes read
+   */
+  get multireddits() {
+    const res = this.fetch<Thing<Multireddit>[]>("api/multi/mine");
+    return res.then((r) => r.map((c) => c.data));
+  }
+
+  /**
+   * Get multireddit accessors, including the endpoints to edit them
+   * @param username The owner of the multireddit
+   * @param name The name of the multireddit
+   */
+  multireddit(username: string, name: string) {
+    return new MultiEditor(username, name, {
+      fetch: (endpoint, init) => this.fetch(endpoint, init),
+      paginate: (endpoint, params, callback) =>
+        this.resume(Paginator.cursor(endpoint, params), callback),
+      username: async () => this.username ?? (await this.me).name,
+    });
+  }
+
+  /**
+   * Create a multireddit of the authenticated user
+   * @param displayName The name, from which the name in its path is derived
+   * @scopes subscribe
+   */
+  async createMultireddit(
+    displayName: string,
+    params: Omit<MultiredditParams, "displayName"> = {},
+  ) {
+    const username = this.username ?? (await this.me).name;
+    const res = await this.fetch<Thing<Multireddit>>(
+      `api/multi/user/${username}/m/${multiName(displayName)}`,
+      {
+        method: "POST",
+        body: multiModel({ visibility: "private", ...params, displayName }),
+      },
+    );
+    return res.data;
+  }
+
+  protected wikiOf(subreddit: string) {
+    return new WikiEditor(subreddit, {
+      fetch: (endpoint) => this.fetch(endpoint),
+      paginate: (endpoint, params, key) =>
+        this.paginatePlain(endpoint, params, key),
+      post: (endpoint, params) => this.post(endpoint, params),
+    });
+  }
+
+  private static Moderation = class {
+    constructor(private r: RedditOauth, private name: string) {}
+
+    /**
+     * Get the things that are reported or caught by the spam filter
+     */
+    get modqueue() {
+      return this.r.paginated<Link | Comment, ModListingParams>(
+        `r/${this.name}/about/modqueue`,
+      );
+    }
+
+    get reports() {
+      return this.r.paginated<Link | Comment, ModListingParams>(
+        `r/${this.name}/about/reports`,
+      );
+    }
+
+    get spam() {
+      return this.r.paginated<Link | Comment, ModListingParams>(
+        `r/${this.name}/about/spam`,
+      );
+    }
+
+    get edited() {
+      return this.r.paginated<Link | Comment, ModListingParams>(
+        `r/${this.name}/about/edited`,
+      );
+    }
+
+    get unmoderated() {
+      return this.r.paginated<Link, ModListingParams>(
+        `r/${this.name}/about/unmoderated`,
+      );
+    }
+
+    /**
+     * Get the moderation log
+     * @scopes modlog
+     */
+    get log() {
+      return this.r.paginated<ModAction, ModLogParams>(
+        `r/${this.name}/about/log`,
+        (action) => action.id,
+      );
+    }
+
+    approve(fullname: Fullname<Link | Comment>) {
+      return this.r.post<void>("api/approve", { id: fullname });
+    }
+
+    /**
+     * Remove a link or comment, optionally with one of the subreddit's removal reasons
+     */
+    async remove(
+      fullname: Fullname<Link | Comment>,
+      options: RemoveParams = {},
+    ) {
+      await this.r.post<void>("api/remove", {
+        id: fullname,
+        spam: options.spam ?? false,
+      });
+      if (options.reasonId || options.modNote) {
+        await this.r.fetch<void>("api/v1/modactions/removal_reasons", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            item_ids: [fullname],
+            reason_id: options.reasonId ?? null,
+            mod_note: options.modNote ?? null,
+          }),
+        });
+      }
+    }
+
+    /**
+     * Lock a link or comment, so that it can't receive new comments
+     */
+    lock(fullname: Fullname<Link | Comment>) {
+      return this.r.post<void>("api/lock", { id: fullname });
+    }
+
+    unlock(fullname: Fullname<Link | Comment>) {
+      return this.r.post<void>("api/unlock", { id: fullname });
+    }
+
+    /**
+     * Sticky a link to the top of the subreddit
+     * @param slot The announcement slot, the bottom one if omitted
+     */
+    sticky(fullname: Fullname<Link>, slot?: 1 | 2) {
+      return this.r.post<void>("api/set_subreddit_sticky", {
+        id: fullname,
+        state: true,
+        num: slot,
+        api_type: "json",
+      });
+    }
+
+    unsticky(fullname: Fullname<Link>) {
+      return this.r.post<void>("api/set_subreddit_sticky", {
+        id: fullname,
+        state: false,
+        api_type: "json",
+      });
+    }
+
+    /**
+     * Distinguish a link or comment as a moderator
+     * @param sticky Sticky a top-level comment to the top of the thread
+     */
+    distinguish(
+      fullname: Fullname<Link | Comment>,
+      how: Distinguish = "yes",
+      sticky?: boolean,
+    ) {
+      return this.r.post<void>("api/distinguish", {
+        id: fullname,
+        how,
+        sticky,
+        api_type: "json",
+      });
+    }
+
+    markNsfw(fullname: Fullname<Link>) {
+      return this.r.post<void>("api/marknsfw", { id: fullname });
+    }
+
+    unmarkNsfw(fullname: Fullname<Link>) {
+      return this.r.post<void>("api/unmarknsfw", { id: fullname });
+    }
+
+    markSpoiler(fullname: Fullname<Link>) {
+      return this.r.post<void>("api/spoiler", { id: fullname });
+    }
+
+    unmarkSpoiler(fullname: Fullname<Link>) {
+      return this.r.post<void>("api/unspoiler", { id: fullname });
+    }
+
+    /**
+     * Ban a user from the subreddit
+     * @param username The user to ban
+     * @scopes modcontributors
+     */
+    ban(username: string, options: BanParams = {}) {
+      return this.r.post<void>(`r/${this.name}/api/friend`, {
+        api_type: "json",
+        type: "banned",
+        name: username,
+        duration: options.duration,
+        ban_reason: options.reason,
+        ban_message: options.message,
+        note: options.note,
+        ban_context: options.context,
+      });
+    }
+
+    unban(username: string) {
+      return this.r.post<void>(`r/${this.name}/api/unfriend`, {
+        api_type: "json",
+        type: "banned",
+        name: username,
+      });
+    }
+
+    /**
+     * Mute a user, so that they can't send modmail to the subreddit
+     * @scopes modcontributors
+     */
+    mute(username: string, note?: string) {
+      return this.r.post<void>(`r/${this.name}/api/friend`, {
+        api_type: "json",
+        type: "muted",
+        name: username,
+        note,
+      });
+    }
+
+    unmute(username: string) {
+      return this.r.post<void>(`r/${this.name}/api/unfriend`, {
+        api_type: "json",
+        type: "muted",
+        name: username,
+      });
+    }
+
+    /**
+     * Get the banned users
+     * @scopes read
+     */
+    get banned() {
+      return this.relationships(`r/${this.name}/about/banned`);
+    }
+
+    get muted() {
+      return this.relationships(`r/${this.name}/about/muted`);
+    }
+
+    private relationships(endpoint: string) {
+      return (
+        params?: ListingParams & { user?: string },
+        callback?: (items: UserRelationship[]) => void,
+      ) =>
+        this.r.paginatePlain<UserRelationship>(
+          endpoint,
+          params,
+          (user) => user.rel_id ?? user.id,
+          callback,
+        );
+    }
+
+    /**
+     * Get the settings of the subreddit
+     * @scopes modconfig
+     */
+    get settings() {
+      const res = this.r.fetch<{ data: SubredditSettings }>(
+        `r/${this.name}/about/edit`,
+      );
+      return res.then((r) => r.data);
+    }
+
+    /**
+     * Update some settings of the subreddit, keeping the others
+     * @returns The updated settings
+     * @scopes modconfig
+     */
+    async updateSettings(changes: SubredditSettingsParams) {
+      // `site_admin` resets the settings that are left out
+      const settings: SubredditSettings = {
+        ...await this.settings,
+        ...Object.fromEntries(
+          Object.entries(changes).filter(([, value]) => value !== undefined),
+        ),
+      };
+      const { subreddit_id, ...rest } = settings;
+      const params: Record<string, string | number | boolean> = {};
+      for (const [key, value] of Object.entries(rest)) {
+        if (value === null || typeof value === "object") continue;
+        params[siteAdminParams[key] ?? key] = value;
+      }
+      await this.r.post("api/site_admin", {
+        ...params,
+        api_type: "json",
+        sr: subreddit_id,
+      });
+      return settings;
+    }
+  };
+
+  private static Flair = class {
+    constructor(private r: RedditOauth, private name: string) {}
+
+    /**
+     * Get the user flair templates
+     * @scopes flair
+     */
+    get userTemplates() {
+      return this.r.fetch<FlairTemplate[]>(
+        `r/${this.name}/api/user_flair_v2`,
+      );
+    }
+
+    /**
+     * Get the post flair templates
+     * @scopes flair
+     */
+    get linkTemplates() {
+      return this.r.fetch<FlairTemplate[]>(
+        `r/${this.name}/api/link_flair_v2`,
+      );
+    }
+
+    /**
+     * @scopes modflair
+     */
+    createTemplate(type: FlairType, params: FlairTemplateParams) {
+      return this.saveTemplate(type, undefined, params);
+    }
+
+    /**
+     * Update a template, leaving out parameters resets them to their defaults
+     * @scopes modflair
+     */
+    updateTemplate(type: FlairType, id: string, params: FlairTemplateParams) {
+      return this.saveTemplate(type, id, params);
+    }
+
+    private saveTemplate(
+      type: FlairType,
+      id: string | undefined,
+      params: FlairTemplateParams,
+    ) {
+      return this.r.post<FlairTemplate>(
+        `r/${this.name}/api/flairtemplate_v2`,
+        {
+          flair_type: type,
+          flair_template_id: id,
+          text: params.text,
+          css_class: params.cssClass,
+          text_color: params.textColor,
+          background_color: params.backgroundColor,
+          mod_only: params.modOnly,
+          text_editable: params.textEditable,
+          allowable_content: params.allowableContent,
+          max_emojis: params.maxEmojis,
+        },
+      );
+    }
+
+    /**
+     * @scopes modflair
+     */
+    async deleteTemplate(id: string) {
+      await this.r.post(`r/${this.name}/api/deleteflairtemplate`, {
+        api_type: "json",
+        flair_template_id: id,
+      });
+    }
+
+    /**
+     * Delete all user or post flair templates
+     * @scopes modflair
+     */
+    async clearTemplates(type: FlairType) {
+      await this.r.post(`r/${this.name}/api/clearflairtemplates`, {
+        api_type: "json",
+        flair_type: type,
+      });
+    }
+
+    /**
+     * Set the flair of a user
+     * @scopes modflair
+     */
+    async setUserFlair(username: string, params: FlairParams) {
+      await this.r.post(`r/${this.name}/api/flair`, {
+        api_type: "json",
+        name: username,
+        text: params.text,
+        css_class: params.cssClass,
+      });
+    }
+
+    /**
+     * @scopes modflair
+     */
+    async deleteUserFlair(username: string) {
+      await this.r.post(`r/${this.name}/api/deleteflair`, {
+        api_type: "json",
+        name: username,
+      });
+    }
+
+    /**
+     * Set the flair of a post
+     * @scopes modflair
+     */
+    async setPostFlair(link: Fullname<Link>, params: FlairParams) {
+      await this.r.post(`r/${this.name}/api/flair`, {
+        api_type: "json",
+        link,
+        text: params.text,
+        css_class: params.cssClass,
+      });
+    }
+
+    /**
+     * Select a template as the flair of the authenticated user
+     * @param text The text, if the template is editable
+     * @scopes flair
+     */
+    async selectUserFlair(templateId: string, text?: string) {
+      const name = this.r.username ?? (await this.r.me).name;
+      await this.r.post(`r/${this.name}/api/selectflair`, {
+        api_type: "json",
+        name,
+        flair_template_id: templateId,
+        text,
+      });
+    }
+
+    /**
+     * Select a template as the flair of a post of the authenticated user
+     * @param text The text, if the template is editable
+     * @scopes flair
+     */
+    async selectPostFlair(
+      link: Fullname<Link>,
+      templateId: string,
+      text?: string,
+    ) {
+      await this.r.post(`r/${this.name}/api/selectflair`, {
+        api_type: "json",
+        link,
+        flair_template_id: templateId,
+        text,
+      });
+    }
+
+    /**
+     * Get the users with a flair
+     * @scopes modflair
+     */
+    list(
+      params?: FlairListParams,
+      callback?: (items: FlairListItem[]) => void,
+    ) {
+      type FlairList = {
+        users: FlairListItem[];
+        next?: string;
+        prev?: string;
+      };
+      // The flair list pages with `next` and `prev` instead of a listing
+      return new Paginator<FlairListItem>(
+        async (endpoint, query) => {
+          const res = await this.r.fetch<FlairList>(`${endpoint}?${query}`);
+          return {
+            items: res.users,
+            after: res.next ?? null,
+            before: res.prev ?? null,
+          };
+        },
+        (item) => item.user,
+        Paginator.cursor(`r/${this.name}/api/flairlist`, params),
+        callback,
+      );
+    }
+
+    /**
+     * Set the flair of many users, in batches of 100
+     * @returns The result of each row, in the order of the rows
+     * @scopes modflair
+     */
+    async bulk(rows: FlairCsvRow[]) {
+      const results: FlairCsvResult[] = [];
+      for (let i = 0; i < rows.length; i += 100) {
+        const batch = rows.slice(i, i + 100);
+        const res = await this.r.post<Omit<FlairCsvResult, "user">[]>(
+          `r/${this.name}/api/flaircsv`,
+          {
+            flair_csv: batch.map((row) =>
+              [row.user, row.text ?? "", row.cssClass ?? ""].map(csvField)
+                .join(",")
+            ).join("\n"),
+          },
+        );
+        results.push(
+          ...batch.map((row, j) => ({
+            ...res[j] ?? {
+              ok: false,
+              status: "missing result",
+              errors: {},
+              warnings: {},
+            },
+            user: row.user,
+          })),
+        );
+      }
+      return results;
+    }
+  };
+
+  /**
+   * Get the user's inbox
+   * @scopes privatemessages
+   */
+  get inbox() {
+    return new RedditOauth.Inbox(this);
+  }
+
+  private static Inbox = class {
+    constructor(private r: RedditOauth) {}
+
+    /**
+     * Get all inbox items: messages, comment and post replies and mentions
+     */
+    get all() {
+      return this.r.paginated<Message>("message/inbox");
+    }
+
+    get unread() {
+      return this.r.paginated<Message>("message/unread");
+    }
+
+    /**
+     * Get the private messages the user received
+     */
+    get messages() {
+      return this.r.paginated<Message>("message/messages");
+    }
+
+    get sent() {
+      return this.r.paginated<Message>("message/sent");
+    }
+
+    /**
+     * Get the comments that mention the user
+     */
+    get mentions() {
+      return this.r.paginated<Message>("message/mentions");
+    }
+
+    get commentReplies() {
+      return this.r.paginated<Message>("message/comments");
+    }
+
+    get postReplies() {
+      return this.r.paginated<Message>("message/selfreply");
+    }
+
+    /**
+     * Mark inbox items as read
+     * @param fullnames The fullnames of the messages or comments
+     */
+    markRead(...fullnames: Fullname<Message | Comment>[]) {
+      return this.r.post<void>("api/read_message", { id: fullnames.join(",") });
+    }
+
+    /**
+     * Mark inbox items as unread
+     * @param fullnames The fullnames of the messages or comments
+     */
+    markUnread(...fullnames: Fullname<Message | Comment>[]) {
+      return this.r.post<void>("api/unread_message", {
+        id: fullnames.join(","),
+      });
+    }
+
+    markAllRead() {
+      return this.r.post<void>("api/read_all_messages");
+    }
+
+    /**
+     * Delete a message from the inbox
+     */
+    delete(fullname: Fullname<Message>) {
+      return this.r.post<void>("api/del_msg", { id: fullname });
+    }
+
+    /**
+     * Block the author of a message or comment in the inbox
+     */
+    blockAuthor(fullname: Fullname<Message | Comment>) {
+      return this.r.post<void>("api/block", { id: fullname });
+    }
+
+    /**
+     * Get the received and sent private messages, grouped by conversation
+     * @param params Listing parameters, applied to both received and sent messages
+     * @returns The conversations, most recently active first
+     */
+    async conversations(params?: ListingParams): Promise<Conversation[]> {
+      const [received, sent] = await Promise.all([
+        this.messages(params),
+        this.sent(params),
+      ]);
+      const byId = new Map<string, Message>();
+      const collect = (message: Message) => {
+        byId.set(message.name, message);
+        if (message.replies) {
+          message.replies.data.children.forEach((c) => collect(c.data));
+        }
+      };
+      [...received, ...sent].forEach(collect);
+
+      const conversations = new Map<Fullname<Message>, Conversation>();
+      for (const message of byId.values()) {
+        const id = message.first_message_name ?? message.name;
+        const conversation = conversations.get(id) ?? {
+          id,
+          subject: message.subject,
+          participants: [],
+          messages: [],
+          unread: false,
+        };
+        conversation.messages.push(message);
+        if (!conversation.participants.includes(message.author)) {
+          conversation.participants.push(message.author);
+        }
+        conversation.unread ||= message.new;
+        conversations.set(id, conversation);
+      }
+      for (const conversation of conversations.values()) {
+        conversation.messages.sort((a, b) => a.created_utc - b.created_utc);
+        conversation.subject = conversation.messages[0].subject;
+      }
+      const lastActive = (c: Conversation) => c.messages.at(-1)!.created_utc;
+      return [...conversations.values()].sort((a, b) =>
+        lastActive(b) - lastActive(a)
+      );
+    }
+  };
+
+  /**
+   * Get the user's home feed
+   */
+  get feed() {
+    return new RedditOauth.Feed(this);
+  }
+
+  private static Feed = class {
+    constructor(private r: RedditOauth) {}
+
+    get best() {
+      return this.r.paginated<Link>("best");
+    }
+
+    get hot() {
+      return this.r.paginated<Link>("hot");
+    }
+
+    get new() {
+      return this.r.paginated<Link>("new");
+    }
+
+    get rising() {
+      return this.r.paginated<Link>("rising");
+    }
+
+    get top() {
+      return this.r.paginated<Link, Omit<HistoryParams, "context">>("top");
+    }
+
+    get controversial() {
+      return this.r.paginated<Link, Omit<HistoryParams, "context">>(
+        "controversial",
+      );
+    }
+
+    get gilded() {
+      return this.r.paginated<Link>("gilded");
+    }
+
+    get random() {
+      return this.r.paginated<Link>("random");
+    }
+  };
+
+  /**
+   * Vote on a link or comment
+   * @param direction `1` to upvote, `-1` to downvote and `0` to remove the vote
+   * @scopes vote
+   */
+  async vote(fullname: Fullname<Link | Comment>, direction: 1 | 0 | -1) {
+    this.requireScope("api/vote", "vote");
+    await this.post<void>("api/vote", { id: fullname, dir: direction });
+  }
+
+  upvote(fullname: Fullname<Link | Comment>) {
+    return this.vote(fullname, 1);
+  }
+
+  downvote(fullname: Fullname<Link | Comment>) {
+    return this.vote(fullname, -1);
+  }
+
+  unvote(fullname: Fullname<Link | Comment>) {
+    return this.vote(fullname, 0);
+  }
+
+  /**
+   * Save a link or comment
+   * @param category The save category, only available to Reddit Premium users
+   * @scopes save
+   */
+  async save(fullname: Fullname<Link | Comment>, category?: string) {
+    this.requireScope("api/save", "save");
+    await this.post<void>("api/save", { id: fullname, category });
+  }
+
+  /**
+   * @scopes save
+   */
+  async unsave(fullname: Fullname<Link | Comment>) {
+    this.requireScope("api/unsave", "save");
+    await this.post<void>("api/unsave", { id: fullname });
+  }
+
+  /**
+   * Hide links from the user's listings
+   * @scopes report
+   */
+  async hide(...fullnames: Fullname<Link>[]) {
+    this.requireScope("api/hide", "report");
+    await this.post<void>("api/hide", { id: fullnames.join(",") });
+  }
+
+  /**
+   * @scopes report
+   */
+  async unhide(...fullnames: Fullname<Link>[]) {
+    this.requireScope("api/unhide", "report");
+    await this.post<void>("api/unhide", { id: fullnames.join(",") });
+  }
+
+  /**
+   * Subscribe to one or more subreddits
+   * @param names The names of the subreddits
+   * @scopes subscribe
+   */
+  async subscribe(...names: string[]) {
+    this.requireScope("api/subscribe", "subscribe");
+    await this.post<void>("api/subscribe", {
+      action: "sub",
+      sr_name: names.join(","),
+      // Otherwise the first subscription also subscribes to the default subreddits
+      skip_initial_defaults: true,
+    });
+  }
+
+  /**
+   * @scopes subscribe
+   */
+  async unsubscribe(...names: string[]) {
+    this.requireScope("api/subscribe", "subscribe");
+    await this.post<void>("api/subscribe", {
+      action: "unsub",
+      sr_name: names.join(","),
+    });
+  }
+
+  /**
+   * Report a link, comment or message to the subreddit's moderators
+   * @param reason The reason, at most 100 characters
+   * @scopes report
+   */
+  async report(fullname: Fullname<Link | Comment | Message>, reason: string) {
+    this.requireScope("api/report", "report");
+    await this.post<void>("api/report", {
+      api_type: "json",
+      thing_id: fullname,
+      reason,
+    });
+  }
+
+  /**
+   * Edit the text of a comment or self post
+   * @param text Raw markdown text
+   * @returns The edited link or comment
+   * @scopes edit
+   */
+  async edit<T extends Fullname<Link | Comment>>(fullname: T, text: string) {
+    this.requireScope("api/editusertext", "edit");
+    const res = await this.post<
+      { json: { data: { things: Thing<FullnameToType[T]>[] } } }
+    >("api/editusertext", { api_type: "json", thing_id: fullname, text });
+    return res.json.data.things[0].data;
+  }
+
+  /**
+   * Delete a link or comment
+   * @scopes edit
+   */
+  async delete(fullname: Fullname<Link | Comment>) {
+    this.requireScope("api/del", "edit");
+    await this.post<void>("api/del", { id: fullname });
+  }
+
+  /**
+   * Enable or disable inbox replies for a link or comment
+   * @scopes edit
+   */
+  async sendReplies(fullname: Fullname<Link | Comment>, enabled: boolean) {
+    this.requireScope("api/sendreplies", "edit");
+    await this.post<void>("api/sendreplies", { id: fullname, state: enabled });
+  }
+
+  /**
+   * Submit a new comment or reply to a message.
+   * @param parent The fullname of the parent comment, link, or message to reply to
+   * @param text Raw markdown text
+   * @returns The new comment, or the new message when replying to a message
+   * @scopes submit, privatemessages (for replying to messages)
+   */
+  async reply<T extends Fullname<Comment | Link | Message>>(
+    parent: T,
+    text: string,
+  ) {
+    const res = await this.post<ThingsResponse<Comment | Message>>(
+      "api/comment",
+      { api_type: "json", thing_id: parent, text },
+    );
+    return res.json.data.things[0].data as T extends Fullname<Message> ? Message
+      : Comment;
+  }
+
+  /**
+   * Sends a private message to the specified user
+   * @param to the username of the recipient
+   * @param subject the subject of the message
+   * @param text the message text
+   * @scopes privatemessages
+   */
+  async compose(
+    to: string,
+    subject: string,
+    text: string,
+  ) {
+    await this.post("api/v1/compose", {
+      api_type: "json",
+      to,
+      subject,
+      text,
+    });
+  }
+
+  /**
+   * Submit a link, text, image, video, crosspost or poll
+   *
+   * The `media` and `thumbnail` files are uploaded first.
+   * @throws {SubredditNotFoundError} If the subreddit doesn't exist
+   * @throws {AlreadySubmittedError} If the link was already submitted and `resubmit` is not set
+   * @throws {ApiRateLimitError} If the user submits too often
+   * @scopes submit
+   */
+  async submit(options: SubmitParams): Promise<SubmitResult> {
+    const { media, thumbnail, poll, ...params } = options;
+    if (options.kind.startsWith("video") && media && !thumbnail) {
+      throw new TypeError("Video submissions require a thumbnail");
+    }
+    if (options.kind === "poll") {
+      if (!poll) throw new TypeError("Poll submissions require options");
+      const { kind: _, ...rest } = params;
+      return submitResult(
+        await this.postJson("api/submit_poll_post", {
+          ...rest,
+          options: poll.options,
+          duration: poll.duration ?? 3,
+        }),
+      );
+    }
+    const uploads = {
+      url: media && (await this.upload(media)).url,
+      video_poster_url: thumbnail && (await this.upload(thumbnail)).url,
+    };
+    return submitResult(
+      await this.post<SubmitResponse>("api/submit", {
+        ...params,
+        ...media && uploads,
+        api_type: "json",
+      }),
+    );
+  }
+
+  /**
+   * Submit a gallery of images, uploading them first
+   * @scopes submit
+   */
+  async submitGallery(options: GalleryParams): Promise<SubmitResult> {
+    const items = [];
+    for (const item of options.items) {
+      const asset = await this.upload(item.media);
+      items.push({
+        media_id: asset.id,
+        caption: item.caption ?? "",
+        outbound_url: item.outboundUrl ?? "",
+      });
+    }
+    return submitResult(
+      await this.postJson("api/submit_gallery_post", {
+        sr: options.sr,
+        title: options.title,
+        items,
+        sendreplies: options.sendreplies ?? true,
+        nsfw: options.nsfw ?? false,
+        spoiler: options.spoiler ?? false,
+      }),
+    );
+  }
+
+  /**
+   * Make a JSON POST request to an `api_type=json` endpoint
    */
-  get downvoted() {
-    return this.paginated<Link | Comment, HistoryParams>(`user/me/downvoted`);
+  private postJson(endpoint: string, body: Record<string, unknown>) {
+    return this.fetch<SubmitResponse>(endpoint, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        api_type: "json",
+        show_error_list: true,
+        ...body,
+      }),
+    });
   }
 
   /**
-   * Get the user's home feed
+   * Upload an image or video, to submit it or use it in a gallery
+   * @scopes submit
    */
-  get feed() {
-    return new RedditOauth.Feed(this);
+  async upload(file: MediaFile): Promise<MediaAsset> {
+    const { blob, filename, mimetype } = await readMedia(file);
+    const lease = await this.post<UploadLease>("api/media/asset", {
+      filepath: filename,
+      mimetype,
+    });
+    const target = new URL(this.uploadTarget ?? `https:${lease.args.action}`);
+    const form = new FormData();
+    for (const { name, value } of lease.args.fields) form.append(name, value);
+    form.append("file", blob, filename);
+    const res = await this.transport(target, { method: "POST", body: form });
+    if (!res.ok) throw httpError(target.pathname, res, await res.text());
+    const key = lease.args.fields.find((f) => f.name === "key")?.value;
+    return {
+      id: lease.asset.asset_id,
+      url: `${target.href.replace(/\/$/, "")}/${key}`,
+      websocketUrl: lease.asset.websocket_url,
+    };
   }
+}
 
-  private static Feed = class {
-    constructor(private r: RedditOauth) {}
+type StreamListing = <T extends ListingTypes>(
+  endpoint: string,
+  options?: StreamOptions,
+) => Stream<T>;
 
-    get best() {
-      return this.r.paginated<Link>("best");
-    }
+class Streams {
+  constructor(protected listing: StreamListing) {}
 
-    get hot() {
-      return this.r.paginated<Link>("hot");
-    }
+  /**
+   * Stream new submissions, several subreddits are polled with a single request
+   * @param subreddits The subreddit name(s)
+   */
+  submissions(subreddits: string | string[], options?: StreamOptions) {
+    return this.listing<Link>(`r/${combine(subreddits)}/new`, options);
+  }
 
-    get new() {
-      return this.r.paginated<Link>("new");
-    }
+  /**
+   * Stream new comments, several subreddits are polled with a single request
+   * @param subreddits The subreddit name(s)
+   */
+  comments(subreddits: string | string[], options?: StreamOptions) {
+    return this.listing<Comment>(`r/${combine(subreddits)}/comments`, options);
+  }
+}
 
-    get rising() {
-      return this.r.paginated<Link>("rising");
-    }
+class AuthStreams extends Streams {
+  /**
+   * Stream new inbox items
+   * @scopes privatemessages
+   */
+  inbox(options?: StreamOptions) {
+    return this.listing<Message>("message/inbox", options);
+  }
+}
 
-    get top() {
-      return this.r.paginated<Link, Omit<HistoryParams, "context">>("top");
-    }
+type WikiClient = {
+  fetch<T>(endpoint: string): Promise<T>;
+  /** Page through revisions, which are not wrapped in things */
+  paginate<T extends ListingTypes>(
+    endpoint: string,
+    params: ListingParams | undefined,
+    key: (item: T) => string,
+  ): Paginator<T>;
+};
 
-    get controversial() {
-      return this.r.paginated<Link, Omit<HistoryParams, "context">>(
-        "controversial",
-      );
-    }
+/**
+ * The wiki of a subreddit
+ * @example
+ * ```ts
+ * const index = await Reddit.subreddit("deno").wiki;
+ * const faq = await Reddit.subreddit("deno").wiki.page("faq");
+ * ```
+ */
+class Wiki implements PromiseLike<WikiPage> {
+  constructor(protected subreddit: string, protected client: WikiClient) {}
+
+  then<R1 = WikiPage, R2 = never>(
+    onfulfilled?: ((page: WikiPage) => R1 | PromiseLike<R1>) | null,
+    onrejected?: ((reason: unknown) => R2 | PromiseLike<R2>) | null,
+  ): PromiseLike<R1 | R2> {
+    return this.page("index").then(onfulfilled, onrejected);
+  }
 
-    get gilded() {
-      return this.r.paginated<Link>("gilded");
-    }
+  /**
+   * Get the names of all pages
+   * @scopes wikiread
+   */
+  async pages() {
+    const res = await this.client.fetch<{ data: string[] }>(
+      `r/${this.subreddit}/wiki/pages`,
+    );
+    return res.data;
+  }
 
-    get random() {
-      return this.r.paginated<Link>("random");
-    }
-  };
+  /**
+   * Get a page
+   * @param revision The id of a revision, the latest if omitted
+   * @scopes wikiread
+   */
+  async page(page: string, revision?: string) {
+    const query = revision ? `?${new URLSearchParams({ v: revision })}` : "";
+    const res = await this.client.fetch<Thing<WikiPage>>(
+      `r/${this.subreddit}/wiki/${page}${query}`,
+    );
+    return res.data;
+  }
 
   /**
-   * Submit a new comment or reply to a message.
-   * @param parent The fullname of the parent comment, link, or message to reply to
-   * @param text Raw markdown text
-   * @scopes submit, privatemessages (for replying to messages)
+   * Get the revisions of a page, or of all pages, newest first
+   * @scopes wikiread
    */
-  reply(
-    parent: Fullname<Comment | Link | Message>,
-    text: string,
+  revisions(page?: string, params?: ListingParams) {
+    return this.client.paginate<WikiRevision>(
+      page
+        ? `r/${this.subreddit}/wiki/revisions/${page}`
+        : `r/${this.subreddit}/wiki/revisions`,
+      params,
+      (revision) => revision.id,
+    );
+  }
+}
+
+type WikiEditorClient = WikiClient & {
+  post<T>(
+    endpoint: string,
+    params: Record<string, string | number | boolean | undefined>,
+  ): Promise<T>;
+};
+
+/**
+ * The wiki of a subreddit, with the endpoints of authenticated clients
+ */
+class WikiEditor extends Wiki {
+  constructor(subreddit: string, protected client: WikiEditorClient) {
+    super(subreddit, client);
+  }
+
+  /**
+   * Create or edit a page
+   * @param content Raw markdown
+   * @throws {ConflictError} If `previous` is not the latest revision
+   * @scopes wikiedit
+   */
+  async edit(page: string, content: string, params: WikiEditParams = {}) {
+    await this.client.post(`r/${this.subreddit}/api/wiki/edit`, {
+      page,
+      content,
+      reason: params.reason,
+      previous: params.previous,
+    });
+  }
+
+  /**
+   * Revert a page to a revision
+   * @scopes modwiki
+   */
+  async revert(page: string, revision: string) {
+    await this.client.post(`r/${this.subreddit}/api/wiki/revert`, {
+      page,
+      revision,
+    });
+  }
+
+  /**
+   * Get the settings of a page
+   * @scopes modwiki
+   */
+  async settings(page: string) {
+    const res = await this.client.fetch<{ data: WikiPageSettings }>(
+      `r/${this.subreddit}/wiki/settings/${page}`,
+    );
+    return res.data;
+  }
+
+  /**
+   * Update the settings of a page
+   * @scopes modwiki
+   */
+  async updateSettings(
+    page: string,
+    settings: { permlevel: WikiPermLevel; listed: boolean },
   ) {
-    return this.fetch("api/comment", {
-      method: "POST",
-      body: new URLSearchParams({
-        api_type: "json",
-        parent,
-        text,
-      }),
+    const res = await this.client.post<{ data: WikiPageSettings }>(
+      `r/${this.subreddit}/wiki/settings/${page}`,
+      settings,
+    );
+    return res.data;
+  }
+
+  /**
+   * Allow a user to edit a page regardless of its permission level
+   * @scopes modwiki
+   */
+  async addEditor(page: string, username: string) {
+    await this.client.post(`r/${this.subreddit}/api/wiki/alloweditor/add`, {
+      page,
+      username,
     });
   }
 
   /**
-   * Sends a private message to the specified user
-   * @param to the username of the recipient
-   * @param subject the subject of the message
-   * @param text the message text
-   * @scopes privatemessages
+   * @scopes modwiki
    */
-  compose(
-    to: string,
-    subject: string,
-    text: string,
+  async removeEditor(page: string, username: string) {
+    await this.client.post(`r/${this.subreddit}/api/wiki/alloweditor/del`, {
+      page,
+      username,
+    });
+  }
+}
+
+type MultiClient = {
+  fetch<T>(endpoint: string, init?: RequestInit): Promise<T>;
+  paginate<T extends ListingTypes>(
+    endpoint: string,
+    params?: ListingParams,
+    callback?: (items: T[]) => void,
+  ): Paginator<T>;
+};
+
+/**
+ * A multireddit, which combines the listings of several subreddits
+ * @example
+ * ```ts
+ * const links = await Reddit.multireddit("spez", "tech").hot({ limit: 10 });
+ * ```
+ */
+class Multi {
+  constructor(
+    protected username: string,
+    protected name: string,
+    protected client: MultiClient,
+  ) {}
+
+  protected get path() {
+    return `user/${this.username}/m/${this.name}`;
+  }
+
+  /**
+   * Get info about the multireddit, including its subreddits
+   */
+  get about() {
+    const res = this.client.fetch<Thing<Multireddit>>(`api/multi/${this.path}`);
+    return res.then((r) => r.data);
+  }
+
+  get hot() {
+    return this.listing("hot");
+  }
+
+  get new() {
+    return this.listing("new");
+  }
+
+  get top() {
+    return this.listing<Omit<HistoryParams, "context">>("top");
+  }
+
+  get controversial() {
+    return this.listing<Omit<HistoryParams, "context">>("controversial");
+  }
+
+  get gilded() {
+    return this.listing("gilded");
+  }
+
+  get rising() {
+    const res = this.client.fetch<Thing<Listing<Link>>>(`${this.path}/rising`);
+    return res.then((r) => r.data.children.map((c) => c.data));
+  }
+
+  private listing<P extends ListingParams = ListingParams>(sort: string) {
+    return (params?: P, callback?: (items: Link[]) => void) =>
+      this.client.paginate<Link>(`${this.path}/${sort}`, params, callback);
+  }
+}
+
+type MultiEditorClient = MultiClient & {
+  /** The username of the authenticated user */
+  username(): Promise<string>;
+};
+
+/**
+ * A multireddit, with the endpoints of authenticated clients
+ */
+class MultiEditor extends Multi {
+  constructor(
+    username: string,
+    name: string,
+    protected client: MultiEditorClient,
   ) {
-    return this.fetch("api/v1/compose", {
-      method: "POST",
+    super(username, name, client);
+  }
+
+  /**
+   * Update the multireddit, leaving out parameters keeps them
+   * @scopes subscribe
+   */
+  async update(params: MultiredditParams) {
+    const res = await this.client.fetch<Thing<Multireddit>>(
+      `api/multi/${this.path}`,
+      { method: "PUT", body: multiModel(params) },
+    );
+    return res.data;
+  }
+
+  /**
+   * @scopes subscribe
+   */
+  async addSubreddit(subreddit: string) {
+    await this.client.fetch(`api/multi/${this.path}/r/${subreddit}`, {
+      method: "PUT",
       body: new URLSearchParams({
-        api_type: "json",
-        to,
-        subject,
-        text,
+        model: JSON.stringify({ name: subreddit }),
       }),
     });
   }
 
-  submit(options: SubmitParams) {
-    const params = new URLSearchParams(options as any);
-    params.append("api_type", "json");
-    return this.fetch("api/submit", {
-      method: "POST",
-      body: params,
+  /**
+   * @scopes subscribe
+   */
+  async removeSubreddit(subreddit: string) {
+    await this.client.fetch(`api/multi/${this.path}/r/${subreddit}`, {
+      method: "DELETE",
     });
   }
+
+  /**
+   * Rename the multireddit, which also changes its path
+   * @returns The renamed multireddit
+   * @scopes subscribe
+   */
+  async rename(displayName: string) {
+    const res = await this.client.fetch<Thing<Multireddit>>(
+      "api/multi/rename",
+      {
+        method: "POST",
+        body: new URLSearchParams({
+          from: `/${this.path}`,
+          display_name: displayName,
+        }),
+      },
+    );
+    return res.data;
+  }
+
+  /**
+   * Copy the multireddit to the authenticated user
+   * @param displayName The name of the copy, the same name if omitted
+   * @returns The copy
+   * @scopes subscribe
+   */
+  async copy(displayName = this.name) {
+    const username = await this.client.username();
+    const res = await this.client.fetch<Thing<Multireddit>>(
+      "api/multi/copy",
+      {
+        method: "POST",
+        body: new URLSearchParams({
+          from: `/${this.path}`,
+          to: `/user/${username}/m/${multiName(displayName)}`,
+          display_name: displayName,
+        }),
+      },
+    );
+    return res.data;
+  }
+
+  /**
+   * @scopes subscribe
+   */
+  async delete() {
+    await this.client.fetch(`api/multi/${this.path}`, { method: "DELETE" });
+  }
+}
+
+/**
+ * An empty listing, used for comments without replies,
+ * for which Reddit returns an empty string
+ */
+function emptyListing(): Thing<Listing<Comment | More>> {
+  return {
+    kind: "Listing",
+    data: {
+      before: null,
+      after: null,
+      dist: 0,
+      modhash: "",
+      geo_filter: "",
+      children: [],
+    },
+  };
+}
+
+function thingOf(item: Comment | More): Thing<Comment | More> {
+  return { kind: isComment(item) ? "t1" : "more", data: item };
+}
+
+/** A comment whose replies are always a listing */
+type ExpandedComment = Comment & { replies: Thing<Listing<Comment | More>> };
+
+type ThingsResponse<T extends ListingTypes> = {
+  json: { data: { things: Thing<T>[] } };
+};
+
+type SubmitResponse = {
+  json: { data: { id: string; name?: string; url: string } };
+};
+
+function submitResult(res: SubmitResponse): SubmitResult {
+  const { id, name, url } = res.json.data;
+  // Gallery and poll posts return the fullname as the id
+  const fullname =
+    (name ?? (id.startsWith("t3_") ? id : `t3_${id}`)) as Fullname<Link>;
+  return { id: fullname.slice(3), name: fullname, url };
+}
+
+/**
+ * The form body of the multireddit endpoints, which take the fields as JSON
+ */
+function multiModel(params: MultiredditParams) {
+  const model = {
+    display_name: params.displayName,
+    subreddits: params.subreddits?.map((name) => ({ name })),
+    visibility: params.visibility,
+    description_md: params.description,
+    key_color: params.keyColor,
+    weighting_scheme: params.weightingScheme,
+  };
+  return new URLSearchParams({ model: JSON.stringify(model) });
+}
+
+/**
+ * The name of a multireddit in its path, derived from its display name
+ * @example multiName("Tech & Science") // "Tech_Science"
+ */
+function multiName(displayName: string) {
+  return displayName.replace(/\W+/g, "_").replace(/^_+|_+$/g, "").slice(0, 21);
+}
+
+/** The friends and blocked users, which are listed without paging */
+type UserList = { data: { children: UserRelationship[] } };
+
+function userList(res: UserList | UserList[]) {
+  // `prefs/friends` responds with an array of lists, the friends first
+  return [res].flat()[0].data.children;
+}
+
+/** A listing whose items are not wrapped in things */
+type PlainListing<T> = {
+  data: { children: T[]; after: string | null; before: string | null };
+};
+
+/**
+ * Sort looked up things into the order of their keys
+ * @param find Finds the thing of a key
+ */
+function infoResult<T extends ListingTypes, K extends string>(
+  keys: K[],
+  find: (key: K) => T | undefined,
+): InfoResult<T, K> {
+  const result: InfoResult<T, K> = { things: [], missing: [], deleted: [] };
+  for (const key of keys) {
+    const thing = find(key);
+    if (!thing) {
+      result.missing.push(key);
+      continue;
+    }
+    result.things.push(thing);
+    if ("author" in thing && thing.author === "[deleted]") {
+      result.deleted.push(key);
+    }
+  }
+  return result;
+}
+
+/** The parameters of `api/site_admin` that are named differently in the settings */
+const siteAdminParams: Record<string, string> = {
+  content_options: "link_type",
+  default_set: "allow_top",
+  header_hover_text: "header-title",
+  language: "lang",
+  subreddit_type: "type",
+};
+
+/**
+ * Quote a CSV field if needed
+ */
+function csvField(value: string) {
+  return /[",\n\r]/.test(value) ? `"${value.replaceAll('"', '""')}"` : value;
+}
+
+function isExpired(token?: BetterToken) {
+  return !token?.expiry || Date.now() > token.expiry.getTime();
+}
+
+/**
+ * Combine subreddit names for a single `r/a+b+c` request
+ */
+function combine(subreddits: string | string[]) {
+  const names = [subreddits].flat().map((name) => name.replace(/^\/?r\//, ""));
+  return [...new Set(names)].join("+");
 }
 
-type OauthTokenResponseBody = {
-  access_token: string;
-  token_type: string;
-  expires_in: number;
-  /** Space delimited scopes that the token can access
-   * @example "identity edit"
+/** Options shared by all clients */
+type ClientOptions = {
+  userAgent?: string;
+  /** How failed requests are retried */
+  retry?: Partial<RetryOptions>;
+  /** The scheduler of the requests, shared by default by the clients with the same credentials */
+  scheduler?: Scheduler;
+  /** The default priority of the requests, e.g. `low` for a crawler
+   * @default "normal"
+   */
+  priority?: Priority;
+  /** Check responses against the types, to find changes of the API early
+   * @default "off"
+   */
+  validation?: ValidationLevel;
+  /** The base URL of the API, e.g. of a local `FakeReddit`
+   * @default "https://www.reddit.com", "https://oauth.reddit.com" for authenticated clients
    */
-  scope: string;
-  /** The refresh token, only provided if the auth request includes `duration=permanent` */
-  refresh_token?: string;
+  baseUrl?: string;
+  /** Sends the requests, e.g. a `Cassette` to record and replay them
+   * @default fetch
+   */
+  transport?: Transport;
 };
 
-type BetterToken = {
-  access?: string;
-  refresh?: string;
-  expiry?: Date;
-  scopes?: OAuthScope[] | "*";
+/** Options of authenticated clients */
+type OauthOptions = {
+  /** The base URL of the OAuth token endpoints
+   * @default "https://www.reddit.com"
+   */
+  authUrl?: string;
+  /** The URL media is uploaded to instead of the one of the upload lease, e.g. a local stand-in */
+  uploadTarget?: string;
+  /** Persists tokens across restarts and shares them between processes */
+  tokenStore?: TokenStore;
+  /** The key of the token in the store, required to keep the tokens of several web app users apart;
+   * clients with the same key also share a rate limit queue
+   * @default `${clientId}:${username}` for scripts, `${clientId}:${appType}` otherwise
+   */
+  tokenKey?: string;
 };
 
-// RedditInitWithLogin ^ RedditInitWithRefresh ^ RedditInitSingleUse
-type RedditInit = XOR<RedditOauthInit, { userAgent?: string }>;
+type OauthClientOptions = ClientOptions & OauthOptions;
+
+// RedditInitWithLogin ^ RedditInitWithRefresh ^ RedditInitSingleUse ^ RedditInitApplication ^ RedditInitInstalled
+type RedditInit = XOR<RedditOauthInit, ClientOptions>;
 
 type RedditOauthInit = XOR<
-  XOR<RedditInitWithLogin, RedditInitWithRefresh>,
-  RedditInitSingleUse
+  XOR<XOR<RedditInitWithLogin, RedditInitWithRefresh>, RedditInitSingleUse>,
+  XOR<RedditInitApplication, RedditInitInstalled>
 >;
 
 // Mutually exclusive init cases
 type RedditInitSingleUse = {
   accessToken: string;
-  userAgent?: string;
-};
+} & OauthClientOptions;
 
 type RedditInitWithLogin = {
   username: string;
   password: string;
   clientId: string;
   clientSecret: string;
-  userAgent?: string;
-};
+} & OauthClientOptions;
 
 type RedditInitWithRefresh = {
   clientId: string;
@@ -643,8 +2952,22 @@ type RedditInitWithRefresh = {
   refreshToken: string;
   accessToken?: string;
   tokenExpiry?: Date;
-  userAgent?: string;
-};
+} & OauthClientOptions;
+
+/** Application-only access for confidential clients (web and script apps) */
+type RedditInitApplication = {
+  clientId: string;
+  clientSecret: string;
+} & OauthClientOptions;
+
+/** Application-only access for public clients (installed apps) */
+type RedditInitInstalled = {
+  clientId: string;
+  /** A unique id of 20-30 characters per device
+   * @default "DO_NOT_TRACK_THIS_DEVICE"
+   */
+  deviceId?: string;
+} & OauthClientOptions;
 
 // https://miyauchi.dev/posts/exclusive-property/
 type XOR<
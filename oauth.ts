@@ -0,0 +1,259 @@
+import { AuthError, parseErrors } from "./errors.ts";
+import type { Transport } from "./transport.ts";
+import type { OAuthScope } from "./types.ts";
+
+export const defaultAuthUrl = "https://www.reddit.com";
+export const tokenEndpoint = "/api/v1/access_token";
+const revokeEndpoint = "/api/v1/revoke_token";
+
+export type BetterToken = {
+  access?: string;
+  refresh?: string;
+  expiry?: Date;
+  scopes?: OAuthScope[] | "*";
+};
+
+export type OauthTokenResponseBody = {
+  access_token: string;
+  token_type: string;
+  expires_in: number;
+  /** Space delimited scopes that the token can access
+   * @example "identity edit"
+   */
+  scope: string;
+  /** The refresh token, only provided if the auth request includes `duration=permanent` */
+  refresh_token?: string;
+};
+
+type OauthTokenErrorBody = {
+  error: string;
+  message?: string;
+};
+
+export type OauthClient = {
+  clientId: string;
+  /** The client secret, empty for installed apps */
+  clientSecret?: string;
+  userAgent?: string;
+  /** The base URL of the OAuth endpoints
+   * @default "https://www.reddit.com"
+   */
+  authUrl?: string;
+  /** @default fetch */
+  transport?: Transport;
+};
+
+export type AuthorizeUrlParams = {
+  clientId: string;
+  /** The redirect URI registered for the app */
+  redirectUri: string;
+  scopes: OAuthScope[];
+  /** Whether a refresh token is issued with the access token
+   * @default "permanent"
+   */
+  duration?: "temporary" | "permanent";
+  /** The CSRF state, generated if omitted */
+  state?: string;
+  /** Use the mobile-friendly authorization page */
+  compact?: boolean;
+  /** @default "https://www.reddit.com" */
+  authUrl?: string;
+};
+
+/**
+ * Build the URL that users are sent to in order to authorize the app
+ * @returns The URL and the state, which must be kept (e.g. in a cookie) to verify the redirect
+ * @example
+ * ```ts
+ * const { url, state } = authorizeUrl({
+ *   clientId: "CLIENT_ID",
+ *   redirectUri: "https://example.com/callback",
+ *   scopes: ["identity", "read"],
+ * });
+ * ```
+ */
+export function authorizeUrl(params: AuthorizeUrlParams) {
+  const state = params.state ?? generateState();
+  const path = params.compact
+    ? "/api/v1/authorize.compact"
+    : "/api/v1/authorize";
+  const url = new URL(path, params.authUrl ?? defaultAuthUrl);
+  url.search = new URLSearchParams({
+    client_id: params.clientId,
+    response_type: "code",
+    state,
+    redirect_uri: params.redirectUri,
+    duration: params.duration ?? "permanent",
+    scope: params.scopes.join(" "),
+  }).toString();
+  return { url, state };
+}
+
+/**
+ * Generate a random CSRF state
+ * @param bytes The number of random bytes
+ */
+export function generateState(bytes = 16) {
+  const random = crypto.getRandomValues(new Uint8Array(bytes));
+  return [...random].map((b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+/**
+ * Compare the state of the redirect with the expected one in constant time
+ */
+export function verifyState(expected: string, received: string | null) {
+  if (!received || expected.length !== received.length) return false;
+  let diff = 0;
+  for (let i = 0; i < expected.length; i++) {
+    diff |= expected.charCodeAt(i) ^ received.charCodeAt(i);
+  }
+  return diff === 0;
+}
+
+export type AuthorizationResult = {
+  code: string;
+  state: string;
+};
+
+/**
+ * Read the code from the redirect of the authorization page, verifying its state
+ * @param redirect The URL the user was redirected to
+ * @param expectedState The state returned by `authorizeUrl`
+ */
+export function parseRedirect(
+  redirect: string | URL,
+  expectedState: string,
+): AuthorizationResult {
+  const params = new URL(redirect).searchParams;
+  const error = params.get("error");
+  if (error) {
+    throw new AuthError("/api/v1/authorize", 401, error, [[error, error]]);
+  }
+  const state = params.get("state");
+  if (!verifyState(expectedState, state)) {
+    throw new AuthError("/api/v1/authorize", 401, "State mismatch", [
+      ["STATE_MISMATCH", "The state does not match the expected state"],
+    ]);
+  }
+  const code = params.get("code");
+  if (!code) {
+    throw new AuthError("/api/v1/authorize", 401, "Missing code");
+  }
+  return { code, state: state! };
+}
+
+/**
+ * Request an access token
+ * @param grant The grant type and its parameters
+ */
+export async function requestToken(
+  client: OauthClient,
+  grant: Record<string, string>,
+) {
+  const res = await (client.transport ?? fetch)(
+    new URL(tokenEndpoint, client.authUrl ?? defaultAuthUrl),
+    {
+      method: "POST",
+      headers: headers(client),
+      body: new URLSearchParams(grant),
+    },
+  );
+  return tokenResponse(res);
+}
+
+/**
+ * Exchange the code of an authorization redirect for a token
+ * @param redirectUri The redirect URI used to build the authorization URL
+ */
+export async function exchangeCode(
+  client: OauthClient,
+  code: string,
+  redirectUri: string,
+) {
+  const json = await requestToken(client, {
+    grant_type: "authorization_code",
+    code,
+    redirect_uri: redirectUri,
+  });
+  return toToken(json);
+}
+
+/**
+ * Revoke an access or refresh token; revoking a refresh token also revokes its access tokens
+ */
+export async function revokeToken(
+  client: OauthClient,
+  token: string,
+  type: "access_token" | "refresh_token",
+) {
+  const res = await (client.transport ?? fetch)(
+    new URL(revokeEndpoint, client.authUrl ?? defaultAuthUrl),
+    {
+      method: "POST",
+      headers: headers(client),
+      body: new URLSearchParams({ token, token_type_hint: type }),
+    },
+  );
+  if (!res.ok) {
+    throw new AuthError(revokeEndpoint, res.status, res.statusText);
+  }
+}
+
+/**
+ * Convert a token response
+ * @param refresh The refresh token to keep if the response doesn't include one
+ */
+export function toToken(
+  json: OauthTokenResponseBody,
+  refresh?: string,
+): BetterToken {
+  return {
+    access: json.access_token,
+    refresh: json.refresh_token ?? refresh,
+    expiry: new Date(Date.now() + json.expires_in * 1000),
+    scopes: parseScopes(json.scope),
+  };
+}
+
+/**
+ * Parse a space delimited scope string
+ */
+export function parseScopes(scope?: string): BetterToken["scopes"] {
+  if (!scope) return undefined;
+  if (scope === "*") return "*";
+  return scope.split(/[\s,]+/).filter(Boolean) as OAuthScope[];
+}
+
+function headers(client: OauthClient) {
+  return {
+    "Content-Type": "application/x-www-form-urlencoded",
+    Authorization: `Basic ${
+      btoa(`${client.clientId}:${client.clientSecret ?? ""}`)
+    }`,
+    ...client.userAgent && { "User-Agent": client.userAgent },
+  };
+}
+
+/**
+ * Parse an OAuth token response, throwing an `AuthError` if the request failed
+ */
+async function tokenResponse(res: Response) {
+  const text = await res.text();
+  let json: OauthTokenResponseBody | OauthTokenErrorBody | undefined;
+  try {
+    json = JSON.parse(text);
+  } catch {
+    // Not JSON, e.g. an HTML error page
+  }
+  if (!res.ok || !json || "error" in json) {
+    const errors = parseErrors(json);
+    throw new AuthError(
+      tokenEndpoint,
+      res.status,
+      errors[0]?.[1] ?? res.statusText,
+      errors,
+      json ?? text,
+    );
+  }
+  return json;
+}
@@ -0,0 +1,187 @@
+import type { ListingParams, ListingTypes, Thing } from "./types.ts";
+
+/**
+ * A serializable position in a listing, used to resume pagination
+ * @example
+ * ```ts
+ * const listing = reddit.subreddit("deno").new({ limit: 1000 });
+ * for await (const link of listing) {
+ *   await Deno.writeTextFile("cursor.json", JSON.stringify(listing.cursor));
+ * }
+ * // After a restart
+ * const cursor = JSON.parse(await Deno.readTextFile("cursor.json"));
+ * for await (const link of reddit.resume<Link>(cursor)) {}
+ * ```
+ */
+export type ListingCursor = {
+  endpoint: string;
+  /** Query parameters other than `after`, `before`, `count` and `limit` */
+  params: Record<string, string>;
+  /** Whether the listing is paged backward with `before` */
+  backward: boolean;
+  /** The position after the previous page, usually the fullname of its last item */
+  after: string | null;
+  /** The position before the previous page */
+  before: string | null;
+  /** The number of items already seen in this listing */
+  count: number;
+  /** The number of items still to yield, `null` if unlimited */
+  remaining: number | null;
+  /** The keys of the most recently yielded items, used to remove duplicates */
+  seen: string[];
+  /** Whether the end of the listing was reached */
+  done: boolean;
+};
+
+/** A page of a listing */
+export type Page<T> = {
+  items: T[];
+  /** The position after the last item, `null` on the last page */
+  after: string | null;
+  /** The position before the first item, `null` on the first page */
+  before: string | null;
+};
+
+type PageFetcher<T extends ListingTypes> = (
+  endpoint: string,
+  params: URLSearchParams,
+) => Promise<Page<T>>;
+
+// Duplicates only appear across neighbouring pages
+const maxSeen = 1000;
+const cursorSeen = 200;
+
+/**
+ * A listing that is fetched lazily, page by page
+ *
+ * Await it to get every item as an array, or iterate over it with `for await`.
+ * A paginator keeps its position, so iterating over it again continues where it stopped.
+ * Listings paged backward with `before` are yielded in reverse, e.g. oldest first for `new`.
+ */
+export class Paginator<T extends ListingTypes>
+  implements AsyncIterable<T>, PromiseLike<T[]> {
+  #cursor: ListingCursor;
+  #seen: Set<string>;
+
+  /**
+   * @param fetchPage Fetch a page of the listing
+   * @param key Identify an item, to remove the duplicates that appear across pages
+   * @param cursor The position to start from
+   * @param callback A callback that is called with each page of items
+   */
+  constructor(
+    private fetchPage: PageFetcher<T>,
+    private key: (item: T) => string,
+    cursor: ListingCursor,
+    private callback?: (items: T[]) => void,
+  ) {
+    this.#cursor = { ...cursor, seen: [] };
+    this.#seen = new Set(cursor.seen);
+  }
+
+  /**
+   * Create a cursor at the start of a listing
+   */
+  static cursor(
+    endpoint: string,
+    params: Record<string, unknown> & ListingParams = {},
+  ): ListingCursor {
+    const { after, before, count, limit = 100, ...rest } = params;
+    return {
+      endpoint,
+      params: Object.fromEntries(
+        Object.entries(rest)
+          .filter(([, v]) => v !== undefined)
+          .map(([k, v]) => [k, String(v)]),
+      ),
+      backward: !after && !!before,
+      after: after ?? null,
+      before: before ?? null,
+      count: count ?? 0,
+      remaining: isFinite(limit) ? limit : null,
+      seen: [],
+      done: false,
+    };
+  }
+
+  /**
+   * The current position, which can be serialized and passed to `resume`
+   */
+  get cursor(): ListingCursor {
+    return {
+      ...this.#cursor,
+      params: { ...this.#cursor.params },
+      seen: [...this.#seen].slice(-cursorSeen),
+    };
+  }
+
+  async *[Symbol.asyncIterator](): AsyncIterator<T> {
+    const cursor = this.#cursor;
+    while (!cursor.done && cursor.remaining !== 0) {
+      const params = new URLSearchParams(cursor.params);
+      params.set("limit", String(Math.min(100, cursor.remaining ?? 100)));
+      if (cursor.count) params.set("count", String(cursor.count));
+      if (cursor.backward && cursor.before) {
+        params.set("before", cursor.before);
+      } else if (!cursor.backward && cursor.after) {
+        params.set("after", cursor.after);
+      }
+
+      const page = await this.fetchPage(cursor.endpoint, params);
+      // Pages are sorted away from `before`, so backward pages are reversed
+      // to keep the items in the order they are reached
+      const items = cursor.backward ? [...page.items].reverse() : page.items;
+      const fresh = items
+        .filter((item) => !this.#seen.has(this.key(item)))
+        .slice(0, cursor.remaining ?? undefined);
+
+      // The position only moves once a whole page has been yielded,
+      // items yielded before a resume are skipped with the seen set
+      const next = cursor.backward ? page.before : page.after;
+      if (this.callback) this.callback(fresh);
+      for (const item of fresh) {
+        this.#see(this.key(item));
+        if (cursor.remaining !== null) cursor.remaining--;
+        yield item;
+      }
+      cursor.count += page.items.length;
+      cursor.after = page.after;
+      cursor.before = page.before;
+      cursor.done = !next || !page.items.length;
+    }
+  }
+
+  /**
+   * Fetch all remaining items
+   */
+  async all() {
+    const items: T[] = [];
+    for await (const item of this) items.push(item);
+    return items;
+  }
+
+  then<R1 = T[], R2 = never>(
+    onfulfilled?: ((value: T[]) => R1 | PromiseLike<R1>) | null,
+    onrejected?: ((reason: unknown) => R2 | PromiseLike<R2>) | null,
+  ): Promise<R1 | R2> {
+    return this.all().then(onfulfilled, onrejected);
+  }
+
+  #see(name: string) {
+    this.#seen.add(name);
+    if (this.#seen.size > maxSeen) {
+      this.#seen.delete(this.#seen.values().next().value!);
+    }
+  }
+}
+
+/**
+ * Get the fullname of a listing item, which `after` and `before` refer to
+ */
+export function fullnameOf(thing: Thing) {
+  const data = thing.data as { name?: string; id?: string };
+  if (data.name && /^t\d_/.test(data.name)) return data.name;
+  return thing.kind.startsWith("t")
+    ? `${thing.kind}_${data.id}`
+    : String(data.id);
+}
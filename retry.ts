@@ -0,0 +1,84 @@
+import { NetworkError, RateLimitError, ServerError } from "./errors.ts";
+
+export type RetryOptions = {
+  /** The maximum number of attempts, including the first one
+   * @default 3
+   */
+  attempts: number;
+  /** The delay before the first retry in milliseconds, doubled after every attempt
+   * @default 1000
+   */
+  baseDelay: number;
+  /** The maximum delay between attempts in milliseconds
+   * @default 30000
+   */
+  maxDelay: number;
+  /** The random fraction of the delay that is added or removed, between 0 and 1
+   * @default 0.2
+   */
+  jitter: number;
+  /** Also retry requests that are not idempotent, e.g. `submit`
+   * @default false
+   */
+  retryPost: boolean;
+};
+
+export type RetryEvent = {
+  /** The endpoint that is retried */
+  endpoint: string;
+  /** The attempt that failed, starting at 1 */
+  attempt: number;
+  /** The delay in milliseconds before the next attempt */
+  delay: number;
+  /** The error that caused the retry */
+  error: Error;
+};
+
+export const defaultRetryOptions: RetryOptions = {
+  attempts: 3,
+  baseDelay: 1000,
+  maxDelay: 30_000,
+  jitter: 0.2,
+  retryPost: false,
+};
+
+/**
+ * Whether a failed request may succeed when retried:
+ * rate limits, server errors and network failures
+ */
+export function isRetryable(error: unknown) {
+  if (error instanceof RateLimitError || error instanceof ServerError) {
+    return true;
+  }
+  return error instanceof NetworkError;
+}
+
+/**
+ * Whether a request with the given method may be retried
+ */
+export function isIdempotent(method = "GET", options: RetryOptions) {
+  method = method.toUpperCase();
+  return method === "GET" || method === "HEAD" || options.retryPost;
+}
+
+/**
+ * Get the delay before the next attempt, honoring `Retry-After`
+ * @param attempt The attempt that failed, starting at 1
+ * @returns `undefined` if the server asks to wait longer than `maxDelay`
+ */
+export function retryDelay(
+  attempt: number,
+  options: RetryOptions,
+  error?: unknown,
+) {
+  const retryAfter = (error as RateLimitError | undefined)?.retryAfter;
+  if (retryAfter !== undefined) {
+    return retryAfter <= options.maxDelay ? retryAfter : undefined;
+  }
+  const delay = Math.min(
+    options.baseDelay * 2 ** (attempt - 1),
+    options.maxDelay,
+  );
+  const jitter = delay * options.jitter * (Math.random() * 2 - 1);
+  return Math.max(0, Math.round(delay + jitter));
+}
@@ -0,0 +1,152 @@
+/** Requests of a higher priority leave the queue first */
+export type Priority = "high" | "normal" | "low";
+
+export type SchedulerOptions = {
+  /** The maximum number of requests in flight
+   * @default 4
+   */
+  concurrency?: number;
+  /** The number of requests per window that `low` priority requests leave to the others
+   * @default 10
+   */
+  reserve?: number;
+};
+
+export type ScheduleEvent = {
+  /** The endpoint of the request */
+  endpoint: string;
+  priority: Priority;
+  /** The time in milliseconds the request waited in the queue */
+  waited: number;
+  /** The number of requests still waiting in the queue */
+  queued: number;
+};
+
+type Task = {
+  priority: number;
+  start: () => void;
+};
+
+const priorities: Record<Priority, number> = { high: 0, normal: 1, low: 2 };
+
+/**
+ * Queues requests so that they stay within the concurrency limit and the rate limit
+ *
+ * Reddit reports the remaining requests of the current window in the
+ * `x-ratelimit-remaining` header and the seconds until it resets in `x-ratelimit-reset`.
+ * Anonymous requests may not include them, in which case only the concurrency is limited.
+ */
+export class Scheduler {
+  #queue: Task[] = [];
+  #active = 0;
+  #remaining?: number;
+  #resetMs = 0;
+  #timer?: ReturnType<typeof setTimeout>;
+  readonly options: Required<SchedulerOptions>;
+
+  constructor(options: SchedulerOptions = {}) {
+    this.options = { concurrency: 4, reserve: 10, ...options };
+  }
+
+  /** The number of requests waiting in the queue */
+  get queued() {
+    return this.#queue.length;
+  }
+
+  /** The number of requests in flight */
+  get active() {
+    return this.#active;
+  }
+
+  /**
+   * The remaining requests of the current rate limit window, if known
+   */
+  get budget() {
+    if (this.#remaining === undefined || this.#resetMs <= Date.now()) {
+      return undefined;
+    }
+    return { remaining: this.#remaining, resetMs: this.#resetMs };
+  }
+
+  /**
+   * Run a request once a slot is free and the rate limit allows it
+   */
+  async schedule<T>(
+    request: () => Promise<T>,
+    priority: Priority = "normal",
+  ): Promise<T> {
+    await new Promise<void>((start) => {
+      const task = { priority: priorities[priority], start };
+      // Keep the queue sorted by priority, first in first out within a priority
+      const index = this.#queue.findIndex((t) => t.priority > task.priority);
+      if (index === -1) this.#queue.push(task);
+      else this.#queue.splice(index, 0, task);
+      this.#next();
+    });
+    try {
+      return await request();
+    } finally {
+      this.#active--;
+      this.#next();
+    }
+  }
+
+  /**
+   * Update the rate limit from the headers of a response
+   */
+  update(headers: Headers) {
+    const remaining = headers.get("x-ratelimit-remaining");
+    const reset = headers.get("x-ratelimit-reset");
+    if (remaining === null || reset === null) return;
+    // The remaining requests are reported as a float, e.g. "598.0"
+    this.#remaining = Math.floor(Number(remaining));
+    this.#resetMs = Date.now() + Number(reset) * 1000;
+    this.#next();
+  }
+
+  #next() {
+    clearTimeout(this.#timer);
+    this.#timer = undefined;
+    while (this.#queue.length && this.#active < this.options.concurrency) {
+      const task = this.#queue[0];
+      if (!this.#allows(task)) {
+        // Wait for the window to reset
+        this.#timer = setTimeout(
+          () => this.#next(),
+          Math.max(this.#resetMs - Date.now(), 0),
+        );
+        return;
+      }
+      this.#queue.shift();
+      this.#active++;
+      task.start();
+    }
+  }
+
+  #allows(task: Task) {
+    if (this.#remaining === undefined) return true;
+    if (this.#resetMs <= Date.now()) {
+      // The window has reset, the next response reports the new one
+      this.#remaining = undefined;
+      return true;
+    }
+    // Requests in flight have not been counted yet
+    const reserve = task.priority === priorities.low ? this.options.reserve : 0;
+    return this.#remaining - this.#active > reserve;
+  }
+}
+
+const shared = new Map<string, Scheduler>();
+
+/**
+ * Get the scheduler shared by all clients of the process with the same credentials
+ * @param key The credentials, e.g. the client id and the username
+ */
+export function sharedScheduler(key: string, options?: SchedulerOptions) {
+  let scheduler = shared.get(key);
+  if (!scheduler) {
+    scheduler = new Scheduler(options);
+    shared.set(key, scheduler);
+  }
+  return scheduler;
+}
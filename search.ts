@@ -0,0 +1,118 @@
+/** The fields that search terms can be restricted to */
+export type SearchField =
+  | "title"
+  | "selftext"
+  | "author"
+  | "subreddit"
+  | "site"
+  | "url"
+  | "flair";
+
+/**
+ * A search query in Reddit's search syntax, built with `query`
+ *
+ * Use it as the `q` of `search()`, or get the query string with `toString()`.
+ */
+export class SearchQuery {
+  #text: string;
+  #compound: boolean;
+  #negative: boolean;
+
+  constructor(text: string, compound = false, negative = false) {
+    this.#text = text;
+    this.#compound = compound;
+    this.#negative = negative;
+  }
+
+  toString() {
+    return this.#text;
+  }
+
+  /** The query, in parentheses if it combines several terms */
+  get grouped() {
+    return this.#compound ? `(${this.#text})` : this.#text;
+  }
+
+  /** Whether the query only excludes results, for which Reddit finds nothing */
+  get negative() {
+    return this.#negative;
+  }
+}
+
+/**
+ * Reject a query that only excludes results
+ * @throws TypeError if every term of the query is negated
+ */
+export function checkQuery(q: SearchQuery | string) {
+  if (q instanceof SearchQuery && q.negative) {
+    throw new TypeError(
+      `The search query "${q}" needs a term that isn't negated`,
+    );
+  }
+}
+
+type Term = SearchQuery | string;
+
+/**
+ * Quote a value if it contains spaces, operators or syntax characters
+ * @example escape('say "hi"') // '"say \"hi\""'
+ */
+function escape(value: string) {
+  if (/^[^\s"():\\]+$/.test(value) && !/^(AND|OR|NOT)$/.test(value)) {
+    return value;
+  }
+  return `"${value.replace(/[\\"]/g, "\\$&")}"`;
+}
+
+function toQuery(term: Term) {
+  return typeof term === "string" ? new SearchQuery(escape(term)) : term;
+}
+
+function field(name: SearchField) {
+  return (value: string) => new SearchQuery(`${name}:${escape(value)}`);
+}
+
+function combine(operator: "AND" | "OR", terms: Term[]) {
+  const queries = terms.map(toQuery);
+  if (queries.length < 2) return queries[0] ?? new SearchQuery("");
+  return new SearchQuery(
+    queries.map((q) => q.grouped).join(` ${operator} `),
+    true,
+    queries.every((q) => q.negative),
+  );
+}
+
+/**
+ * Build search queries; strings are searched for as they are, quoted when needed
+ * @example
+ * ```ts
+ * const q = query.and(
+ *   query.title("deno"),
+ *   query.or(query.author("ry"), query.author("lucacasonato")),
+ *   query.not(query.flair("Meta")),
+ * );
+ * String(q); // 'title:deno AND (author:ry OR author:lucacasonato) AND NOT flair:Meta'
+ * ```
+ */
+export const query = {
+  /** Free text, matched anywhere */
+  text: (value: string) => toQuery(value),
+  title: field("title"),
+  selftext: field("selftext"),
+  author: field("author"),
+  subreddit: field("subreddit"),
+  /** The domain of a link, e.g. `github.com` */
+  site: field("site"),
+  url: field("url"),
+  flair: field("flair"),
+  /** Only text posts, or only links */
+  self: (self: boolean) => new SearchQuery(`self:${self ? "yes" : "no"}`),
+  nsfw: (nsfw: boolean) => new SearchQuery(`nsfw:${nsfw ? "yes" : "no"}`),
+  /** All of the terms match */
+  and: (...terms: Term[]) => combine("AND", terms),
+  /** Any of the terms matches */
+  or: (...terms: Term[]) => combine("OR", terms),
+  /** Exclude the term; a query needs at least one term that isn't excluded */
+  not: (term: Term) =>
+    new SearchQuery(`NOT ${toQuery(term).grouped}`, false, true),
+};
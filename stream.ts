@@ -0,0 +1,222 @@
+import { EventEmitter } from "https://deno.land/x/event@2.0.1/mod.ts";
+import { fullnameOf } from "./paginator.ts";
+import type { Listing, ListingTypes, Thing } from "./types.ts";
+
+export type StreamOptions = {
+  /** The number of recent items to emit when the stream starts, `0` starts from now
+   * @default 0
+   */
+  backfill?: number;
+  /** The shortest time between polls in milliseconds
+   * @default 2000
+   */
+  minInterval?: number;
+  /** The longest time between polls in milliseconds
+   * @default 60000
+   */
+  maxInterval?: number;
+  /** The number of fullnames remembered to emit each item once
+   * @default 1000
+   */
+  memory?: number;
+  /** The maximum number of pages fetched per poll to catch up after a burst
+   * @default 3
+   */
+  maxPages?: number;
+};
+
+export type StreamPoll = {
+  /** The number of new items */
+  items: number;
+  /** The number of requests made */
+  requests: number;
+  /** The delay in milliseconds before the next poll */
+  interval: number;
+};
+
+type StreamEvents<T> = {
+  item: [T];
+  poll: [StreamPoll];
+  error: [Error];
+};
+
+type PageFetcher<T extends ListingTypes> = (
+  params: URLSearchParams,
+) => Promise<Thing<Listing<T>>>;
+
+/** The remaining requests of the current rate limit window */
+type Budget = () => { remaining: number; resetMs: number } | undefined;
+
+/**
+ * Polls a listing that is sorted by new and emits every new item exactly once, oldest first
+ *
+ * The polling interval shrinks while new items arrive, grows while the listing is quiet
+ * and never exceeds the remaining rate limit.
+ * @example
+ * ```ts
+ * const stream = Reddit.create().stream.submissions(["deno", "node"]);
+ * stream.on("item", (link) => console.log(link.title));
+ * stream.on("error", console.error);
+ * stream.start();
+ * // or
+ * for await (const link of stream.items()) console.log(link.title);
+ * ```
+ */
+export class Stream<T extends ListingTypes> extends EventEmitter<
+  StreamEvents<T>
+> {
+  #seen = new Set<string>();
+  #timer?: ReturnType<typeof setTimeout>;
+  #started = false;
+  #polling = false;
+  #stopped = false;
+  #interval: number;
+  #waiting = new Set<() => void>();
+  readonly options: Required<StreamOptions>;
+
+  constructor(
+    private fetchPage: PageFetcher<T>,
+    private budget: Budget,
+    options: StreamOptions = {},
+  ) {
+    super();
+    this.options = {
+      backfill: 0,
+      minInterval: 2000,
+      maxInterval: 60_000,
+      memory: 1000,
+      maxPages: 3,
+      ...options,
+    };
+    this.#interval = this.options.minInterval;
+  }
+
+  /**
+   * Start polling, once the listeners are attached; `items()` starts the stream itself
+   */
+  start() {
+    if (this.#polling || this.#stopped) return this;
+    this.#polling = true;
+    this.#timer = setTimeout(() => this.#poll(), 0);
+    return this;
+  }
+
+  /**
+   * Stop polling
+   */
+  stop() {
+    this.#stopped = true;
+    clearTimeout(this.#timer);
+    this.#waiting.forEach((wake) => wake());
+  }
+
+  /**
+   * Iterate over new items; the stream stops when the loop is exited
+   *
+   * A failed poll throws its error after the items before it, which ends the loop.
+   */
+  async *items(): AsyncGenerator<T> {
+    const queue: T[] = [];
+    let failure: Error | undefined;
+    let wake = () => {};
+    const listener = (item: T) => {
+      queue.push(item);
+      wake();
+    };
+    const onError = (error: Error) => {
+      failure ??= error;
+      wake();
+    };
+    this.on("item", listener);
+    this.on("error", onError);
+    this.start();
+    try {
+      while (!this.#stopped || queue.length) {
+        if (failure && !queue.length) throw failure;
+        if (!queue.length) {
+          await new Promise<void>((resolve) => {
+            wake = resolve;
+            this.#waiting.add(resolve);
+          });
+          this.#waiting.delete(wake);
+        }
+        while (queue.length) yield queue.shift()!;
+      }
+    } finally {
+      this.off("item", listener);
+      this.off("error", onError);
+      this.stop();
+    }
+  }
+
+  async #poll() {
+    let requests = 0;
+    let emitted = 0;
+    try {
+      const first = !this.#started;
+      const wanted = first ? this.options.backfill : Infinity;
+      const maxPages = first
+        ? Math.ceil(this.options.backfill / 100) || 1
+        : this.options.maxPages;
+      const fresh: [string, T][] = [];
+      let after: string | null = null;
+      while (requests < maxPages) {
+        const params = new URLSearchParams({ limit: "100" });
+        if (after) params.set("after", after);
+        const page = await this.fetchPage(params);
+        requests++;
+        let overlap = false;
+        for (const child of page.data.children) {
+          const name = fullnameOf(child);
+          if (this.#seen.has(name)) overlap = true;
+          else fresh.push([name, child.data]);
+        }
+        // Stop paging once the listing reaches items that were already seen
+        if (overlap || fresh.length >= wanted || !page.data.after) break;
+        after = page.data.after;
+      }
+      this.#started = true;
+
+      // Listings are sorted newest first
+      const emit = fresh.slice(0, wanted).reverse();
+      for (const [name] of fresh.reverse()) this.#see(name);
+      for (const [, item] of emit) {
+        if (this.#stopped) return;
+        await this.emit("item", item);
+        emitted++;
+      }
+      this.#adapt(first ? 0 : emitted, requests);
+    } catch (error) {
+      this.#interval = Math.min(this.#interval * 2, this.options.maxInterval);
+      await this.emit("error", error as Error);
+    }
+    if (this.#stopped) return;
+    await this.emit("poll", {
+      items: emitted,
+      requests,
+      interval: this.#interval,
+    });
+    this.#timer = setTimeout(() => this.#poll(), this.#interval);
+  }
+
+  #adapt(items: number, requests: number) {
+    const { minInterval, maxInterval } = this.options;
+    this.#interval = items
+      ? Math.max(this.#interval / 2, minInterval)
+      : Math.min(this.#interval * 1.5, maxInterval);
+    // Spread the remaining requests over the rest of the rate limit window
+    const budget = this.budget();
+    if (budget) {
+      const window = budget.resetMs - Date.now();
+      const share = window / Math.max(budget.remaining, 1) * requests;
+      this.#interval = Math.max(this.#interval, Math.min(share, maxInterval));
+    }
+  }
+
+  #see(name: string) {
+    this.#seen.add(name);
+    if (this.#seen.size > this.options.memory) {
+      this.#seen.delete(this.#seen.values().next().value!);
+    }
+  }
+}
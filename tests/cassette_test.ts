@@ -0,0 +1,37 @@
+import { assertEquals } from "https://deno.land/std@0.187.0/testing/asserts.ts";
+import { Cassette, FakeReddit, Reddit, Scheduler } from "../mod.ts";
+
+// Run with RECORD=1 to record the cassette again from a fake server
+const record = !!Deno.env.get("RECORD");
+
+function client(path: string) {
+  const fake = new FakeReddit({
+    clients: [{ clientId: "CLIENT_ID", clientSecret: "CLIENT_SECRET" }],
+    users: [{ name: "alice", password: "hunter2" }],
+    subreddits: [{ display_name: "deno" }],
+  });
+  const cassette = new Cassette(new URL(path, import.meta.url).pathname, {
+    mode: record ? "record" : "replay",
+    transport: fake.transport,
+  });
+  return Reddit.create({
+    clientId: "CLIENT_ID",
+    clientSecret: "CLIENT_SECRET",
+    username: "alice",
+    password: "hunter2",
+    transport: cassette.transport,
+    scheduler: new Scheduler(),
+  });
+}
+
+Deno.test("replays an image submission, including the upload", async () => {
+  const reddit = client("./fixtures/submit_image.json");
+  assertEquals((await reddit.me).name, "alice");
+  const { name } = await reddit.submit({
+    kind: "image",
+    sr: "deno",
+    title: "Dinosaur",
+    media: { data: new Uint8Array([137, 80, 78, 71]), name: "dino.png" },
+  });
+  assertEquals(name, "t3_rv");
+});
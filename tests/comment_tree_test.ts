@@ -0,0 +1,137 @@
+import { assertEquals } from "https://deno.land/std@0.187.0/testing/asserts.ts";
+import { flattenComments, Reddit, Scheduler } from "../mod.ts";
+import type { Comment, Listing, More, Thing } from "../types.ts";
+
+function comment(id: string, parent: string, replies: (Comment | More)[] = []) {
+  return {
+    id,
+    name: `t1_${id}`,
+    parent_id: parent,
+    body: id,
+    replies: replies.length ? listing(replies) : "",
+  } as unknown as Comment;
+}
+
+function more(id: string, parent: string, children: string[], depth = 1) {
+  return {
+    id,
+    name: `t1_${id}`,
+    parent_id: parent,
+    children,
+    count: children.length,
+    depth,
+  } as More;
+}
+
+function listing(items: unknown[]) {
+  return {
+    kind: "Listing",
+    data: {
+      children: items.map((data) => ({
+        kind: "children" in (data as More) ? "more" : "t1",
+        data,
+      })),
+    },
+  } as unknown as Thing<Listing<Comment | More>>;
+}
+
+const link = {
+  kind: "Listing",
+  data: { children: [{ kind: "t3", data: {} }] },
+};
+
+/**
+ * A thread with a "continue this thread" link below c2,
+ * and `More` nodes below c1 and at the top level
+ */
+const responses: Record<string, unknown> = {
+  "/comments/l": [
+    link,
+    listing([
+      comment("c1", "t3_l", [
+        comment("c2", "t1_c1", [more("m0", "t1_c2", [], 10)]),
+        more("m1", "t1_c1", ["c3", "c4"]),
+      ]),
+      more("m2", "t3_l", ["c5"], 0),
+    ]),
+  ],
+  "/comments/l?comment=c2": [
+    link,
+    listing([comment("c2", "t1_c1", [comment("c6", "t1_c2")])]),
+  ],
+  "/api/morechildren?children=c3,c4,c5": {
+    json: {
+      data: {
+        things: listing([
+          comment("c3", "t1_c1"),
+          comment("c4", "t1_c1"),
+          comment("c5", "t3_l"),
+        ]).data.children,
+      },
+    },
+  },
+};
+
+function client() {
+  const requests: string[] = [];
+  const reddit = Reddit.create({
+    scheduler: new Scheduler(),
+    transport: (url) => {
+      const path = url.pathname.replace(/\.json$/, "");
+      const key = url.searchParams.has("children")
+        ? `${path}?children=${url.searchParams.get("children")}`
+        : url.searchParams.has("comment")
+        ? `${path}?comment=${url.searchParams.get("comment")}`
+        : path;
+      requests.push(key);
+      const body = responses[key];
+      return Promise.resolve(
+        body ? Response.json(body) : new Response(null, { status: 404 }),
+      );
+    },
+  });
+  return { reddit, requests };
+}
+
+Deno.test("expands More nodes and continued threads", async () => {
+  const { reddit, requests } = client();
+  const tree = await reddit.commentTree("l");
+  assertEquals(
+    flattenComments(tree).map(({ node, depth }) => `${node.id}:${depth}`),
+    ["c1:0", "c2:1", "c6:2", "c3:1", "c4:1", "c5:0"],
+  );
+  // The children of both More nodes are fetched in one request
+  assertEquals(requests, [
+    "/comments/l",
+    "/comments/l?comment=c2",
+    "/api/morechildren?children=c3,c4,c5",
+  ]);
+});
+
+Deno.test("leaves More nodes beyond the budget", async () => {
+  const { reddit, requests } = client();
+  const tree = await reddit.commentTree("l", { maxRequests: 1 });
+  assertEquals(requests.length, 2);
+  assertEquals(tree.comments.map((c) => c.id), ["c1", "m2"]);
+  assertEquals(flattenComments(tree).map(({ node }) => node.id), [
+    "c1",
+    "c2",
+    "c6",
+  ]);
+});
+
+Deno.test("leaves More nodes deeper than maxDepth", async () => {
+  const { reddit, requests } = client();
+  const tree = await reddit.commentTree("l", { maxDepth: 5 });
+  assertEquals(requests, [
+    "/comments/l",
+    "/api/morechildren?children=c3,c4,c5",
+  ]);
+  assertEquals(flattenComments(tree).map(({ node }) => node.id), [
+    "c1",
+    "c2",
+    "c3",
+    "c4",
+    "c5",
+  ]);
+});
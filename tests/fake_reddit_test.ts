@@ -0,0 +1,168 @@
+import {
+  assertEquals,
+  assertInstanceOf,
+  assertRejects,
+} from "https://deno.land/std@0.187.0/testing/asserts.ts";
+import {
+  AuthError,
+  FakeReddit,
+  MemoryTokenStore,
+  RateLimitError,
+  Reddit,
+  Scheduler,
+  ServerError,
+} from "../mod.ts";
+import type { Link } from "../types.ts";
+
+const links = Array.from({ length: 250 }, (_, i) => ({
+  subreddit: "deno",
+  title: `Link ${i}`,
+  created_utc: i,
+}));
+
+function anon(fake: FakeReddit) {
+  return Reddit.create({
+    transport: fake.transport,
+    retry: { baseDelay: 1 },
+    scheduler: new Scheduler(),
+  });
+}
+
+function script(fake: FakeReddit) {
+  return Reddit.create({
+    clientId: "id",
+    clientSecret: "secret",
+    username: "alice",
+    password: "hunter2",
+    transport: fake.transport,
+    scheduler: new Scheduler(),
+  });
+}
+
+function grants(fake: FakeReddit) {
+  return fake.requests.filter((r) => r === "POST /api/v1/access_token").length;
+}
+
+Deno.test("retries failed requests", async () => {
+  const fake = new FakeReddit({ links });
+  const reddit = anon(fake);
+  const retries: number[] = [];
+  reddit.on("retry", (e) => retries.push(e.attempt));
+  fake.fail("r/deno/new", 503, 2);
+  assertEquals((await reddit.subreddit("deno").new({ limit: 5 })).length, 5);
+  assertEquals(retries, [1, 2]);
+
+  fake.fail("r/deno/new", 503, 3);
+  await assertRejects(
+    () => reddit.subreddit("deno").new({ limit: 5 }),
+    ServerError,
+  );
+});
+
+Deno.test("emits the error of a failed request", async () => {
+  const fake = new FakeReddit({ links });
+  const reddit = anon(fake);
+  const errors: Error[] = [];
+  reddit.on("error", (error) => errors.push(error));
+  fake.fail("r/deno/new", 503, 3);
+  await assertRejects(() => reddit.subreddit("deno").new(), ServerError);
+  assertEquals(errors.length, 1);
+  assertInstanceOf(errors[0], ServerError);
+});
+
+Deno.test("retries rate limited requests after Retry-After", async () => {
+  const fake = new FakeReddit({ links });
+  fake.fail("r/deno/about", 429, 1, { "retry-after": "0" });
+  assertEquals((await anon(fake).subreddit("deno").about).display_name, "deno");
+
+  // Longer than `maxDelay`
+  fake.fail("r/deno/about", 429, 1, { "retry-after": "600" });
+  await assertRejects(() => anon(fake).subreddit("deno").about, RateLimitError);
+});
+
+Deno.test("pages through listings and resumes from a cursor", async () => {
+  const fake = new FakeReddit({ links });
+  const reddit = anon(fake);
+  const all = await reddit.subreddit("deno").new({ limit: 250 });
+  assertEquals(all.length, 250);
+  assertEquals(new Set(all.map((l) => l.name)).size, 250);
+  assertEquals(all[0].title, "Link 249");
+
+  const listing = reddit.subreddit("deno").new({ limit: 250 });
+  const first = [];
+  for await (const link of listing) {
+    first.push(link);
+    if (first.length === 150) break;
+  }
+  const rest = await reddit.resume<Link>(listing.cursor);
+  assertEquals(rest.length, 100);
+  assertEquals(rest[0].title, "Link 99");
+});
+
+Deno.test("refreshes a token that Reddit rejects", async () => {
+  const fake = new FakeReddit({
+    clients: [{ clientId: "id", clientSecret: "secret" }],
+  });
+  const reddit = await Reddit.fromCode({
+    clientId: "id",
+    clientSecret: "secret",
+    redirectUri: "https://example.com/callback",
+    code: fake.authorize("id", "alice"),
+    transport: fake.transport,
+    scheduler: new Scheduler(),
+  });
+  assertEquals((await reddit.me).name, "alice");
+  fake.expireTokens();
+  assertEquals((await reddit.me).name, "alice");
+  assertEquals(grants(fake), 2);
+});
+
+Deno.test("gets a new token for a script when the token expires", async () => {
+  const fake = new FakeReddit({
+    clients: [{ clientId: "id", clientSecret: "secret" }],
+    users: [{ name: "alice", password: "hunter2" }],
+  });
+  const reddit = script(fake);
+  await reddit.me;
+  assertEquals(grants(fake), 1);
+  fake.expireTokens();
+  assertEquals((await reddit.me).name, "alice");
+  assertEquals(grants(fake), 2);
+});
+
+Deno.test("renews a rejected token only once", async () => {
+  const fake = new FakeReddit({
+    clients: [{ clientId: "id", clientSecret: "secret" }],
+    users: [{ name: "alice", password: "hunter2" }],
+  });
+  const reddit = script(fake);
+  await reddit.me;
+  fake.fail("api/v1/me", 401, 2);
+  await assertRejects(() => reddit.me, AuthError);
+  assertEquals(grants(fake), 2);
+  assertEquals((await reddit.me).name, "alice");
+});
+
+Deno.test("rejects requests after the token is revoked", async () => {
+  const fake = new FakeReddit({
+    clients: [{ clientId: "id", clientSecret: "secret" }],
+  });
+  const store = new MemoryTokenStore();
+  await Reddit.fromCode({
+    clientId: "id",
+    clientSecret: "secret",
+    redirectUri: "https://example.com/callback",
+    code: fake.authorize("id", "alice"),
+    transport: fake.transport,
+    tokenStore: store,
+    tokenKey: "alice",
+  });
+  const reddit = Reddit.create({
+    accessToken: (await store.get("alice"))!.access!,
+    transport: fake.transport,
+    scheduler: new Scheduler(),
+  });
+  assertEquals((await reddit.me).name, "alice");
+  await reddit.revoke();
+  await assertRejects(() => reddit.me, AuthError);
+});
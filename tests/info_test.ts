@@ -0,0 +1,53 @@
+import { assertEquals } from "https://deno.land/std@0.187.0/testing/asserts.ts";
+import { FakeReddit, Reddit, Scheduler } from "../mod.ts";
+import type { Fullname, Link } from "../types.ts";
+
+const links = Array.from({ length: 250 }, (_, i) => ({
+  id: `l${i}`,
+  subreddit: i % 2 ? "deno" : "node",
+  title: `Link ${i}`,
+  author: i === 7 ? "[deleted]" : "alice",
+  ...i < 3 && { url: "https://deno.com" },
+}));
+
+function client() {
+  const fake = new FakeReddit({ links });
+  const reddit = Reddit.create({
+    transport: fake.transport,
+    scheduler: new Scheduler(),
+  });
+  return { fake, reddit };
+}
+
+Deno.test("looks up things in batches of 100, in the order asked", async () => {
+  const { fake, reddit } = client();
+  const fullnames = links.map((l) => `t3_${l.id}` as Fullname<Link>).reverse();
+  const result = await reddit.info(...fullnames, "t3_missing", "t3_l0");
+  assertEquals(result.things.length, 250);
+  assertEquals(result.things[0].title, "Link 249");
+  assertEquals(result.things[249].title, "Link 0");
+  assertEquals(result.missing, ["t3_missing"]);
+  assertEquals(result.deleted, ["t3_l7"]);
+  // 251 unique fullnames
+  assertEquals(
+    fake.requests.filter((r) => r.startsWith("GET /api/info")).length,
+    3,
+  );
+});
+
+Deno.test("looks up subreddits by name", async () => {
+  const { reddit } = client();
+  const result = await reddit.infoBySubreddit("Deno", "missing", "node");
+  assertEquals(result.things.map((s) => s.display_name), ["deno", "node"]);
+  assertEquals(result.missing, ["missing"]);
+});
+
+Deno.test("finds every post of a URL", async () => {
+  const { reddit } = client();
+  const posts = await reddit.infoByUrl("https://deno.com");
+  assertEquals(posts.map((l) => l.title).sort(), [
+    "Link 0",
+    "Link 1",
+    "Link 2",
+  ]);
+});
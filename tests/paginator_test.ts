@@ -0,0 +1,84 @@
+import { assertEquals } from "https://deno.land/std@0.187.0/testing/asserts.ts";
+import { FakeReddit, Paginator, Reddit, Scheduler } from "../mod.ts";
+import type { ListingCursor } from "../paginator.ts";
+import type { Link } from "../types.ts";
+
+const links = Array.from({ length: 250 }, (_, i) => ({
+  subreddit: "deno",
+  title: `Link ${i}`,
+  created_utc: i,
+}));
+
+function client() {
+  return Reddit.create({
+    transport: new FakeReddit({ links }).transport,
+    scheduler: new Scheduler(),
+  });
+}
+
+/**
+ * A paginator over pages of numbered links; `after` is the index of the next page
+ */
+function numbers(pages: number[][], cursor: ListingCursor) {
+  const requests: string[] = [];
+  const paginator = new Paginator<Link>(
+    (_, params) => {
+      requests.push(params.toString());
+      const index = Number(params.get("after") ?? 0);
+      return Promise.resolve({
+        items: pages[index].map((n) => ({ name: `t3_${n}`, score: n }) as Link),
+        after: index + 1 < pages.length ? String(index + 1) : null,
+        before: null,
+      });
+    },
+    (link) => link.name,
+    cursor,
+  );
+  return { paginator, requests };
+}
+
+const start = Paginator.cursor("numbers", { limit: Infinity });
+
+Deno.test("removes the duplicates of neighbouring pages", async () => {
+  const { paginator } = numbers([[1, 2, 3], [3, 4], [4, 5]], start);
+  assertEquals((await paginator).map((link) => link.score), [1, 2, 3, 4, 5]);
+});
+
+Deno.test("resumes from a serialized cursor without repeating items", async () => {
+  const pages = [[1, 2, 3], [4, 5, 6], [7, 8]];
+  const { paginator } = numbers(pages, start);
+  for await (const link of paginator) {
+    if (link.score === 5) break;
+  }
+  // The position only moves after a whole page, the rest is skipped by key
+  const cursor = JSON.parse(JSON.stringify(paginator.cursor));
+  assertEquals(cursor.after, "1");
+  const resumed = numbers(pages, cursor);
+  assertEquals((await resumed.paginator).map((link) => link.score), [6, 7, 8]);
+  assertEquals(resumed.requests, [
+    "limit=100&count=3&after=1",
+    "limit=100&count=6&after=2",
+  ]);
+});
+
+Deno.test("stops at the limit", async () => {
+  const { paginator, requests } = numbers(
+    [[1, 2, 3], [4, 5, 6]],
+    Paginator.cursor("numbers", { limit: 4 }),
+  );
+  assertEquals((await paginator).map((link) => link.score), [1, 2, 3, 4]);
+  assertEquals(paginator.cursor.remaining, 0);
+  assertEquals(requests, ["limit=4", "limit=1&count=3&after=1"]);
+});
+
+Deno.test("yields the items of backward pages in the order they are reached", async () => {
+  const reddit = client();
+  const all = await reddit.subreddit("deno").new({ limit: 250 });
+  // `all` is newest first, Link 99 is the 151st
+  const before = all.find((link) => link.title === "Link 99")!.name;
+  const newer = await reddit.subreddit("deno").new({ before, limit: 150 });
+  assertEquals(newer.length, 150);
+  assertEquals(newer[0].title, "Link 100");
+  assertEquals(newer[99].title, "Link 199");
+  assertEquals(newer[149].title, "Link 249");
+});
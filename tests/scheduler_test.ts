@@ -0,0 +1,103 @@
+import { assertEquals } from "https://deno.land/std@0.187.0/testing/asserts.ts";
+import { Scheduler } from "../mod.ts";
+import type { Priority } from "../mod.ts";
+import { sharedScheduler } from "../scheduler.ts";
+
+/** A request that finishes when `done` is called */
+function request() {
+  let done = () => {};
+  const finished = new Promise<void>((resolve) => done = resolve);
+  return { run: () => finished, done };
+}
+
+function rateLimit(remaining: string, reset: string) {
+  return new Headers({
+    "x-ratelimit-remaining": remaining,
+    "x-ratelimit-reset": reset,
+  });
+}
+
+const tick = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+Deno.test("limits the requests in flight", async () => {
+  const scheduler = new Scheduler({ concurrency: 2 });
+  const requests = [request(), request(), request()];
+  const all = Promise.all(requests.map((r) => scheduler.schedule(r.run)));
+  await tick();
+  assertEquals([scheduler.active, scheduler.queued], [2, 1]);
+  requests[0].done();
+  await tick();
+  assertEquals([scheduler.active, scheduler.queued], [2, 0]);
+  requests.forEach((r) => r.done());
+  await all;
+  assertEquals(scheduler.active, 0);
+});
+
+Deno.test("starts requests by priority, in order within a priority", async () => {
+  const scheduler = new Scheduler({ concurrency: 1 });
+  const blocking = request();
+  const first = scheduler.schedule(blocking.run);
+  const started: string[] = [];
+  const order: [string, Priority][] = [
+    ["low", "low"],
+    ["normal 1", "normal"],
+    ["high", "high"],
+    ["normal 2", "normal"],
+  ];
+  const queued = order.map(([name, priority]) =>
+    scheduler.schedule(() => {
+      started.push(name);
+      return Promise.resolve();
+    }, priority)
+  );
+  blocking.done();
+  await Promise.all([first, ...queued]);
+  assertEquals(started, ["high", "normal 1", "normal 2", "low"]);
+});
+
+Deno.test("reads the rate limit headers", () => {
+  const scheduler = new Scheduler();
+  scheduler.update(new Headers());
+  assertEquals(scheduler.budget, undefined);
+  scheduler.update(rateLimit("598.0", "120"));
+  assertEquals(scheduler.budget?.remaining, 598);
+  const seconds = (scheduler.budget!.resetMs - Date.now()) / 1000;
+  assertEquals(seconds > 119 && seconds <= 120, true);
+});
+
+Deno.test("waits for the window to reset when no requests remain", async () => {
+  const scheduler = new Scheduler();
+  scheduler.update(rateLimit("0", "0.05"));
+  const start = Date.now();
+  await scheduler.schedule(() => Promise.resolve());
+  assertEquals(Date.now() - start >= 40, true);
+});
+
+Deno.test("leaves the reserve of a window to other priorities", async () => {
+  const scheduler = new Scheduler({ reserve: 10 });
+  scheduler.update(rateLimit("5", "0.05"));
+  const started: string[] = [];
+  const low = scheduler.schedule(() => {
+    started.push("low");
+    return Promise.resolve();
+  }, "low");
+  await scheduler.schedule(() => {
+    started.push("normal");
+    return Promise.resolve();
+  });
+  assertEquals(started, ["normal"]);
+  // Once the window resets, the new one isn't known yet
+  await low;
+  assertEquals(started, ["normal", "low"]);
+});
+
+Deno.test("shares a scheduler between clients with the same key", () => {
+  assertEquals(
+    sharedScheduler("id:alice") === sharedScheduler("id:alice"),
+    true,
+  );
+  assertEquals(
+    sharedScheduler("id:alice") === sharedScheduler("id:bob"),
+    false,
+  );
+});
@@ -0,0 +1,54 @@
+import {
+  assertEquals,
+  assertThrows,
+} from "https://deno.land/std@0.187.0/testing/asserts.ts";
+import { FakeReddit, query, Reddit, Scheduler } from "../mod.ts";
+
+Deno.test("quotes values only when needed", () => {
+  assertEquals(String(query.title("deno")), "title:deno");
+  assertEquals(String(query.title("deno land")), 'title:"deno land"');
+  assertEquals(String(query.text('say "hi"')), '"say \\"hi\\""');
+  assertEquals(String(query.text("OR")), '"OR"');
+  assertEquals(String(query.author("a:b")), 'author:"a:b"');
+});
+
+Deno.test("groups combined terms", () => {
+  const q = query.and(
+    query.title("deno"),
+    query.or(query.author("ry"), query.author("lucacasonato")),
+    query.not(query.flair("Meta")),
+  );
+  assertEquals(
+    String(q),
+    "title:deno AND (author:ry OR author:lucacasonato) AND NOT flair:Meta",
+  );
+  assertEquals(String(query.not(query.or("a", "b"))), "NOT (a OR b)");
+  assertEquals(String(query.and(query.self(true))), "self:yes");
+  assertEquals(String(query.or()), "");
+});
+
+Deno.test("knows when every term is negated", () => {
+  assertEquals(query.not("a").negative, true);
+  assertEquals(query.and(query.not("a"), query.not("b")).negative, true);
+  assertEquals(query.or(query.not("a"), query.not("b")).negative, true);
+  assertEquals(query.and("a", query.not("b")).negative, false);
+  assertEquals(query.or("a", query.not("b")).negative, false);
+});
+
+Deno.test("rejects searches for negated terms only", () => {
+  const reddit = Reddit.create({
+    transport: new FakeReddit().transport,
+    scheduler: new Scheduler(),
+  });
+  assertThrows(
+    () => reddit.search({ q: query.not(query.flair("Meta")) }),
+    TypeError,
+  );
+  assertThrows(
+    () =>
+      reddit.subreddit("deno").search({
+        q: query.and(query.not("a"), query.not("b")),
+      }),
+    TypeError,
+  );
+});
@@ -0,0 +1,94 @@
+import {
+  assertEquals,
+  assertRejects,
+} from "https://deno.land/std@0.187.0/testing/asserts.ts";
+import { Stream } from "../mod.ts";
+import type { StreamPoll } from "../mod.ts";
+import type { Link, Listing, Thing } from "../types.ts";
+
+function link(id: number) {
+  return { id: String(id), name: `t3_${id}`, title: `Link ${id}` } as Link;
+}
+
+/** A listing of the links, newest first, as Reddit sorts `new` */
+function listing(links: Link[]): Thing<Listing<Link>> {
+  return {
+    kind: "Listing",
+    data: {
+      before: null,
+      after: null,
+      dist: links.length,
+      modhash: "",
+      geo_filter: "",
+      children: [...links].reverse().map((data) => ({ kind: "t3", data })),
+    },
+  };
+}
+
+const options = { minInterval: 1, maxInterval: 10 };
+
+function nextPoll(stream: Stream<Link>) {
+  return new Promise<StreamPoll>((resolve) => stream.once("poll", resolve));
+}
+
+Deno.test("doesn't poll until it is started", async () => {
+  let polls = 0;
+  const stream = new Stream<Link>(
+    () => {
+      polls++;
+      return Promise.resolve(listing([]));
+    },
+    () => undefined,
+    options,
+  );
+  await new Promise((resolve) => setTimeout(resolve, 10));
+  assertEquals(polls, 0);
+  stream.start();
+  await nextPoll(stream);
+  stream.stop();
+  assertEquals(polls, 1);
+});
+
+Deno.test("emits the backfill and then each new item once, oldest first", async () => {
+  const links = [1, 2, 3].map(link);
+  const stream = new Stream<Link>(
+    () => Promise.resolve(listing(links)),
+    () => undefined,
+    { ...options, backfill: 2 },
+  );
+  const titles: string[] = [];
+  for await (const item of stream.items()) {
+    titles.push(item.title);
+    if (titles.length === 2) links.push(link(4), link(5));
+    if (titles.length === 4) break;
+  }
+  assertEquals(titles, ["Link 2", "Link 3", "Link 4", "Link 5"]);
+});
+
+Deno.test("backs off after a failed poll", async () => {
+  const stream = new Stream<Link>(
+    () => Promise.reject(new Error("offline")),
+    () => undefined,
+    { minInterval: 10, maxInterval: 1000 },
+  );
+  const errors: Error[] = [];
+  stream.on("error", (error) => errors.push(error));
+  stream.start();
+  const poll = await nextPoll(stream);
+  stream.stop();
+  assertEquals(errors.map((e) => e.message), ["offline"]);
+  assertEquals(poll.interval, 20);
+});
+
+Deno.test("throws the error of a failed poll out of items()", async () => {
+  const stream = new Stream<Link>(
+    () => Promise.reject(new Error("offline")),
+    () => undefined,
+    options,
+  );
+  await assertRejects(async () => {
+    for await (const _ of stream.items()) {
+      // No items
+    }
+  });
+});
@@ -0,0 +1,145 @@
+import { assertEquals } from "https://deno.land/std@0.187.0/testing/asserts.ts";
+import {
+  ancestors,
+  countDescendants,
+  filterComments,
+  flattenComments,
+  parentMap,
+  topLevelAncestor,
+  walkBreadthFirst,
+  walkDepthFirst,
+} from "../mod.ts";
+import type { Comment, CommentTree, Link, More } from "../types.ts";
+
+function comment(
+  id: string,
+  parent: string,
+  replies: (Comment | More)[] = [],
+  fields: Partial<Comment> = {},
+) {
+  return {
+    id,
+    name: `t1_${id}`,
+    parent_id: parent,
+    author: "alice",
+    body: `Comment ${id}`,
+    score: 1,
+    replies: replies.length
+      ? {
+        kind: "Listing",
+        data: {
+          children: replies.map((data) => ({
+            kind: "children" in data ? "more" : "t1",
+            data,
+          })),
+        },
+      }
+      : "",
+    ...fields,
+  } as Comment;
+}
+
+const more = {
+  id: "m",
+  name: "t1_m",
+  parent_id: "t1_b",
+  children: ["x", "y"],
+  count: 5,
+  depth: 2,
+} as More;
+
+//  a
+//  ├ b
+//  │ ├ c
+//  │ └ (5 more)
+//  └ d
+//  e
+const tree: CommentTree = {
+  link: { name: "t3_l", title: "Link" } as unknown as Link,
+  comments: [
+    comment("a", "t3_l", [
+      comment("b", "t1_a", [comment("c", "t1_b", [], { score: 10 }), more], {
+        author: "Bob",
+      }),
+      comment("d", "t1_a", [], { body: "deno" }),
+    ]),
+    comment("e", "t3_l", [], { score: -2 }),
+  ],
+};
+
+const ids = (entries: { node: Comment | More }[]) =>
+  entries.map(({ node }) => node.id);
+
+Deno.test("walks depth-first in display order", () => {
+  const entries = [...walkDepthFirst(tree)];
+  assertEquals(ids(entries), ["a", "b", "c", "m", "d", "e"]);
+  assertEquals(entries.map((e) => e.depth), [0, 1, 2, 2, 1, 0]);
+  assertEquals(entries.map((e) => e.parent?.id), [
+    undefined,
+    "a",
+    "b",
+    "b",
+    "a",
+    undefined,
+  ]);
+});
+
+Deno.test("walks breadth-first level by level", () => {
+  assertEquals(ids([...walkBreadthFirst(tree)]), [
+    "a",
+    "e",
+    "b",
+    "d",
+    "c",
+    "m",
+  ]);
+});
+
+Deno.test("walks the list that comments() returns, without the link", () => {
+  assertEquals(ids([...walkDepthFirst([tree.link, ...tree.comments])]), [
+    "a",
+    "b",
+    "c",
+    "m",
+    "d",
+    "e",
+  ]);
+  assertEquals(ids([...walkDepthFirst(tree.comments[0] as Comment)]), [
+    "a",
+    "b",
+    "c",
+    "m",
+    "d",
+  ]);
+});
+
+Deno.test("flattens and filters comments", () => {
+  assertEquals(ids(flattenComments(tree)), ["a", "b", "c", "d", "e"]);
+  assertEquals(
+    filterComments(tree, { author: "bob" }).map((c) => c.id),
+    ["b"],
+  );
+  assertEquals(
+    filterComments(tree, { minScore: 0, maxScore: 5 }).map((c) => c.id),
+    ["a", "b", "d"],
+  );
+  assertEquals(
+    filterComments(tree, { pattern: /deno/ }).map((c) => c.id),
+    ["d"],
+  );
+});
+
+Deno.test("finds the ancestors of a comment", () => {
+  const byName = parentMap(tree);
+  const c = byName.get("t1_c")!;
+  assertEquals(ancestors(c, byName).map((a) => a.id), ["b", "a"]);
+  assertEquals(ancestors(more, byName).map((a) => a.id), ["b", "a"]);
+  assertEquals(topLevelAncestor(c, byName).id, "a");
+  assertEquals(topLevelAncestor(byName.get("t1_e")!, byName).id, "e");
+});
+
+Deno.test("counts the descendants of a comment", () => {
+  const a = tree.comments[0] as Comment;
+  assertEquals(countDescendants(a), 3);
+  assertEquals(countDescendants(a, true), 8);
+});
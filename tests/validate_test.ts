@@ -0,0 +1,139 @@
+import {
+  assertEquals,
+  assertRejects,
+} from "https://deno.land/std@0.187.0/testing/asserts.ts";
+import {
+  FakeReddit,
+  Reddit,
+  Scheduler,
+  validate,
+  ValidationError,
+} from "../mod.ts";
+import type { ValidationLevel } from "../mod.ts";
+
+const link = {
+  id: "a",
+  name: "t3_a",
+  title: "Hello",
+  subreddit: "deno",
+  author: "alice",
+  selftext: "",
+  url: "https://example.com",
+  permalink: "/r/deno/comments/a/hello/",
+  is_self: false,
+  score: 1,
+  created_utc: 0,
+};
+
+const comment = {
+  id: "b",
+  name: "t1_b",
+  body: "Hi",
+  author: "bob",
+  link_id: "t3_a",
+  parent_id: "t3_a",
+  subreddit: "deno",
+  score: 1,
+  created_utc: 0,
+  replies: "",
+};
+
+function listing(...children: { kind: string; data: unknown }[]) {
+  return { kind: "Listing", data: { before: null, after: null, children } };
+}
+
+Deno.test("accepts well-formed things", () => {
+  assertEquals(validate(listing({ kind: "t3", data: link })), []);
+  assertEquals(
+    validate([
+      listing({ kind: "t3", data: link }),
+      listing({ kind: "t1", data: comment }),
+    ]),
+    [],
+  );
+});
+
+Deno.test("reports each field that doesn't match with its path", () => {
+  const issues = validate(
+    listing({ kind: "t3", data: { ...link, title: 1, name: "t1_a" } }),
+  );
+  assertEquals(issues, [
+    {
+      path: "$.data.children[0].data.name",
+      expected: "fullname t3_*",
+      received: '"t1_a"',
+    },
+    {
+      path: "$.data.children[0].data.title",
+      expected: "string",
+      received: "number",
+    },
+  ]);
+});
+
+Deno.test("checks the replies of comments", () => {
+  const reply = { ...comment, id: "c", name: "t1_c", score: null };
+  const parent = { ...comment, replies: listing({ kind: "t1", data: reply }) };
+  assertEquals(validate(listing({ kind: "t1", data: parent })), [
+    {
+      path: "$.data.children[0].data.replies.data.children[0].data.score",
+      expected: "number",
+      received: "null",
+    },
+  ]);
+  assertEquals(
+    validate(listing({ kind: "t1", data: { ...comment, replies: null } }))
+      .map((issue) => issue.expected),
+    ['Listing or ""'],
+  );
+});
+
+Deno.test("reports a body that isn't JSON", () => {
+  assertEquals(validate("<html>"), [
+    { path: "$", expected: "JSON", received: '"<html>"' },
+  ]);
+});
+
+function client(validation: ValidationLevel) {
+  const body = listing({ kind: "t3", data: { ...link, title: null } });
+  return Reddit.create({
+    validation,
+    scheduler: new Scheduler(),
+    transport: () => Promise.resolve(Response.json(body)),
+  });
+}
+
+Deno.test("throws, warns or ignores depending on the level", async () => {
+  const error = await assertRejects(
+    () => client("strict").subreddit("deno").new({ limit: 1 }),
+    ValidationError,
+  );
+  assertEquals(error.issues.length, 1);
+  assertEquals(error.issues[0].path, "$.data.children[0].data.title");
+
+  const warnings: unknown[] = [];
+  const warn = console.warn;
+  console.warn = (message) => warnings.push(message);
+  try {
+    assertEquals((await client("warn").subreddit("deno").new()).length, 1);
+    assertEquals((await client("off").subreddit("deno").new()).length, 1);
+  } finally {
+    console.warn = warn;
+  }
+  assertEquals(warnings.length, 1);
+});
+
+Deno.test("matches the responses of the fake server", async () => {
+  const fake = new FakeReddit({
+    links: [{ id: "a", subreddit: "deno", title: "Hello", author: "alice" }],
+    comments: [{ link_id: "t3_a", body: "Hi", author: "bob" }],
+  });
+  const reddit = Reddit.create({
+    validation: "strict",
+    transport: fake.transport,
+    scheduler: new Scheduler(),
+  });
+  const [link] = await reddit.subreddit("deno").new();
+  assertEquals(link.title, "Hello");
+  assertEquals((await reddit.subreddit("deno").comments()).length, 1);
+});
@@ -0,0 +1,242 @@
+import type { BetterToken } from "./oauth.ts";
+
+/**
+ * Persists tokens, so that they survive restarts and can be shared between processes
+ */
+export interface TokenStore {
+  get(key: string): Promise<BetterToken | undefined>;
+  set(key: string, token: BetterToken): Promise<void>;
+  delete(key: string): Promise<void>;
+  /**
+   * Run a function while holding an exclusive lock on a key,
+   * so that only one process refreshes a token at a time
+   */
+  lock<T>(key: string, fn: () => Promise<T>): Promise<T>;
+}
+
+type StoredToken = Omit<BetterToken, "expiry"> & { expiry?: string };
+
+function serialize(token: BetterToken): StoredToken {
+  return { ...token, expiry: token.expiry?.toISOString() };
+}
+
+function deserialize(token: StoredToken): BetterToken {
+  return {
+    ...token,
+    expiry: token.expiry ? new Date(token.expiry) : undefined,
+  };
+}
+
+const delay = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Serializes calls per key within the process
+ */
+class LocalLock {
+  #queues = new Map<string, Promise<unknown>>();
+
+  run<T>(key: string, fn: () => Promise<T>): Promise<T> {
+    const previous = this.#queues.get(key) ?? Promise.resolve();
+    const next = previous.catch(() => {}).then(fn);
+    this.#queues.set(key, next);
+    next.finally(() => {
+      if (this.#queues.get(key) === next) this.#queues.delete(key);
+    }).catch(() => {});
+    return next;
+  }
+}
+
+/**
+ * Keeps tokens in memory, shared by all clients of the process that use the same store
+ */
+export class MemoryTokenStore implements TokenStore {
+  #tokens = new Map<string, BetterToken>();
+  #lock = new LocalLock();
+
+  get(key: string) {
+    return Promise.resolve(this.#tokens.get(key));
+  }
+
+  set(key: string, token: BetterToken) {
+    this.#tokens.set(key, token);
+    return Promise.resolve();
+  }
+
+  delete(key: string) {
+    this.#tokens.delete(key);
+    return Promise.resolve();
+  }
+
+  lock<T>(key: string, fn: () => Promise<T>) {
+    return this.#lock.run(key, fn);
+  }
+}
+
+/**
+ * Keeps tokens in a JSON file, locked across processes with a lock file next to it
+ *
+ * Requires `--allow-read` and `--allow-write` for the file and the lock file.
+ */
+export class JsonFileTokenStore implements TokenStore {
+  #lock = new LocalLock();
+
+  /**
+   * @param path The path of the JSON file
+   * @param staleMs The age after which a lock file is considered abandoned
+   */
+  constructor(readonly path: string, readonly staleMs = 30_000) {}
+
+  async get(key: string) {
+    const token = (await this.#read())[key];
+    return token ? deserialize(token) : undefined;
+  }
+
+  async set(key: string, token: BetterToken) {
+    const tokens = await this.#read();
+    tokens[key] = serialize(token);
+    await this.#write(tokens);
+  }
+
+  async delete(key: string) {
+    const tokens = await this.#read();
+    delete tokens[key];
+    await this.#write(tokens);
+  }
+
+  lock<T>(key: string, fn: () => Promise<T>) {
+    return this.#lock.run(key, async () => {
+      const lockPath = `${this.path}.lock`;
+      await this.#acquire(lockPath);
+      try {
+        return await fn();
+      } finally {
+        await Deno.remove(lockPath).catch(() => {});
+      }
+    });
+  }
+
+  async #acquire(lockPath: string) {
+    while (true) {
+      try {
+        const file = await Deno.open(lockPath, {
+          createNew: true,
+          write: true,
+        });
+        file.close();
+        return;
+      } catch (error) {
+        if (!(error instanceof Deno.errors.AlreadyExists)) throw error;
+      }
+      const stat = await Deno.stat(lockPath).catch(() => undefined);
+      if (stat?.mtime && Date.now() - stat.mtime.getTime() > this.staleMs) {
+        await Deno.remove(lockPath).catch(() => {});
+        continue;
+      }
+      await delay(50);
+    }
+  }
+
+  async #read(): Promise<Record<string, StoredToken>> {
+    try {
+      return JSON.parse(await Deno.readTextFile(this.path));
+    } catch (error) {
+      if (error instanceof Deno.errors.NotFound) return {};
+      throw error;
+    }
+  }
+
+  async #write(tokens: Record<string, StoredToken>) {
+    // Write to a temporary file first, so that readers never see a partial file;
+    // each write has its own, so that processes don't overwrite each other's
+    const temp = `${this.path}.${crypto.randomUUID()}.tmp`;
+    try {
+      await Deno.writeTextFile(temp, JSON.stringify(tokens, null, 2));
+      await Deno.rename(temp, this.path);
+    } catch (error) {
+      await Deno.remove(temp).catch(() => {});
+      throw error;
+    }
+  }
+}
+
+type KvKey = readonly (string | number)[];
+
+/** The subset of `Deno.Kv` used by `KvTokenStore` */
+export interface Kv {
+  get<T = unknown>(
+    key: KvKey,
+  ): Promise<{ value: T | null; versionstamp: string | null }>;
+  set(key: KvKey, value: unknown): Promise<unknown>;
+  delete(key: KvKey): Promise<void>;
+  atomic(): {
+    check(
+      ...checks: { key: KvKey; versionstamp: string | null }[]
+    ): ReturnType<Kv["atomic"]>;
+    set(
+      key: KvKey,
+      value: unknown,
+      options?: { expireIn?: number },
+    ): ReturnType<Kv["atomic"]>;
+    commit(): Promise<{ ok: boolean }>;
+  };
+}
+
+/**
+ * Keeps tokens in Deno KV, locked across processes with an expiring lock entry
+ * @example
+ * ```ts
+ * const store = new KvTokenStore(await Deno.openKv());
+ * ```
+ */
+export class KvTokenStore implements TokenStore {
+  #lock = new LocalLock();
+
+  /**
+   * @param kv A `Deno.Kv` instance
+   * @param prefix The key prefix of the entries
+   * @param lockMs The time after which a lock expires
+   */
+  constructor(
+    private kv: Kv,
+    readonly prefix: KvKey = ["snooland", "tokens"],
+    readonly lockMs = 30_000,
+  ) {}
+
+  async get(key: string) {
+    const entry = await this.kv.get<StoredToken>([...this.prefix, key]);
+    return entry.value ? deserialize(entry.value) : undefined;
+  }
+
+  async set(key: string, token: BetterToken) {
+    await this.kv.set([...this.prefix, key], serialize(token));
+  }
+
+  delete(key: string) {
+    return this.kv.delete([...this.prefix, key]);
+  }
+
+  lock<T>(key: string, fn: () => Promise<T>) {
+    return this.#lock.run(key, async () => {
+      const lockKey = [...this.prefix, "lock", key];
+      while (true) {
+        // Expired entries are only deleted eventually, so check the age as well
+        const current = await this.kv.get<number>(lockKey);
+        if (
+          current.value === null || Date.now() - current.value > this.lockMs
+        ) {
+          const { ok } = await this.kv.atomic()
+            .check({ key: lockKey, versionstamp: current.versionstamp })
+            .set(lockKey, Date.now(), { expireIn: this.lockMs })
+            .commit();
+          if (ok) break;
+        }
+        await delay(50);
+      }
+      try {
+        return await fn();
+      } finally {
+        await this.kv.delete(lockKey);
+      }
+    });
+  }
+}
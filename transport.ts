@@ -0,0 +1,188 @@
+/** Sends a request, with the same signature as `fetch` */
+export type Transport = (input: URL, init: RequestInit) => Promise<Response>;
+
+export type CassetteOptions = {
+  /** `record` sends the requests and saves them, `replay` answers them from the file
+   * @default "replay"
+   */
+  mode?: "record" | "replay";
+  /** The transport used to record
+   * @default fetch
+   */
+  transport?: Transport;
+  /** The request headers that are redacted */
+  headers?: string[];
+  /** The body and query parameters that are redacted, in requests and JSON responses */
+  params?: string[];
+};
+
+export type Interaction = {
+  request: {
+    method: string;
+    url: string;
+    headers: Record<string, string>;
+    body: string;
+  };
+  response: {
+    status: number;
+    statusText: string;
+    headers: Record<string, string>;
+    body: string;
+  };
+};
+
+const redacted = "REDACTED";
+
+/**
+ * Records requests and their responses to a JSON file and replays them, to test offline
+ *
+ * Requests are matched by method, URL and body, in the order they were recorded;
+ * multipart bodies are matched by their fields and the names, types and sizes of their files.
+ * Secrets are redacted before they are saved, so cassettes can be committed.
+ * Requires `--allow-read` to replay and `--allow-write` to record.
+ * @example
+ * ```ts
+ * const cassette = new Cassette("tests/fixtures/me.json", {
+ *   mode: Deno.env.get("RECORD") ? "record" : "replay",
+ * });
+ * const reddit = Reddit.create({ ...credentials, transport: cassette.transport });
+ * ```
+ */
+export class Cassette {
+  #interactions?: Promise<Interaction[]>;
+  #played = new Set<Interaction>();
+  readonly options: Required<CassetteOptions>;
+
+  constructor(readonly path: string, options: CassetteOptions = {}) {
+    this.options = {
+      mode: "replay",
+      transport: (input, init) => fetch(input, init),
+      ...options,
+      headers: ["authorization", "cookie", ...options.headers ?? []].map((h) =>
+        h.toLowerCase()
+      ),
+      params: [
+        "password",
+        "client_secret",
+        "code",
+        "token",
+        "access_token",
+        "refresh_token",
+        "device_id",
+        ...options.params ?? [],
+      ],
+    };
+  }
+
+  /** The transport to pass to `Reddit.create` */
+  readonly transport: Transport = async (input, init) => {
+    const request = await this.#request(input, init);
+    if (this.options.mode === "replay") return this.#replay(request);
+
+    const res = await this.options.transport(input, init);
+    const body = await res.text();
+    const interactions = await this.#load();
+    interactions.push({
+      request,
+      response: {
+        status: res.status,
+        statusText: res.statusText,
+        headers: Object.fromEntries(
+          [...res.headers].filter(([name]) => name !== "set-cookie"),
+        ),
+        body: this.#redactJson(body),
+      },
+    });
+    await Deno.writeTextFile(
+      this.path,
+      JSON.stringify(interactions, null, 2) + "\n",
+    );
+    return new Response(body || null, res);
+  };
+
+  async #replay(request: Interaction["request"]) {
+    const interaction = (await this.#load()).find((i) =>
+      !this.#played.has(i) &&
+      i.request.method === request.method &&
+      i.request.url === request.url &&
+      i.request.body === request.body
+    );
+    if (!interaction) {
+      throw new Error(
+        `No recorded response for ${request.method} ${request.url} in ${this.path}`,
+      );
+    }
+    this.#played.add(interaction);
+    const { body, ...init } = interaction.response;
+    return new Response(body || null, init);
+  }
+
+  #load(): Promise<Interaction[]> {
+    return this.#interactions ??= (async () => {
+      try {
+        // Recording starts a new cassette
+        if (this.options.mode === "record") return [];
+        return JSON.parse(await Deno.readTextFile(this.path));
+      } catch (error) {
+        if (error instanceof Deno.errors.NotFound) return [];
+        throw error;
+      }
+    })();
+  }
+
+  async #request(
+    input: URL,
+    init: RequestInit,
+  ): Promise<Interaction["request"]> {
+    const request = new Request(input, init);
+    const url = new URL(request.url);
+    this.#redactParams(url.searchParams);
+    const type = request.headers.get("content-type") ?? "";
+    let body: string;
+    if (type.startsWith("multipart/form-data")) {
+      // The boundary is random, so the fields are recorded instead of the raw body
+      const params = new URLSearchParams();
+      for (const [name, value] of await request.formData()) {
+        params.append(
+          name,
+          typeof value === "string"
+            ? value
+            : `${value.name} (${value.type}, ${value.size} bytes)`,
+        );
+      }
+      this.#redactParams(params);
+      body = params.toString();
+    } else if (type.startsWith("application/x-www-form-urlencoded")) {
+      const params = new URLSearchParams(await request.text());
+      this.#redactParams(params);
+      body = params.toString();
+    } else {
+      body = this.#redactJson(await request.text());
+    }
+    const headers: Record<string, string> = {};
+    for (const [name, value] of request.headers) {
+      headers[name] = this.options.headers.includes(name)
+        ? redacted
+        : name === "content-type"
+        ? value.replace(/; boundary=.*/, "")
+        : value;
+    }
+    return { method: request.method, url: url.href, headers, body };
+  }
+
+  #redactParams(params: URLSearchParams) {
+    for (const name of this.options.params) {
+      if (params.has(name)) params.set(name, redacted);
+    }
+  }
+
+  #redactJson(body: string) {
+    for (const name of this.options.params) {
+      body = body.replaceAll(
+        new RegExp(`("${name}"\\s*:\\s*)"(?:[^"\\\\]|\\\\.)*"`, "g"),
+        `$1"${redacted}"`,
+      );
+    }
+    return body;
+  }
+}
@@ -0,0 +1,160 @@
+import type { Comment, CommentTree, Link, More } from "./types.ts";
+
+export type CommentNode = Comment | More;
+
+/** A comment tree, the result of `comments()`, a list of nodes or a single comment with its replies */
+export type CommentRoots =
+  | CommentTree
+  | readonly (CommentNode | Link)[]
+  | Comment;
+
+export type WalkEntry<T extends CommentNode = CommentNode> = {
+  node: T;
+  /** The depth below the roots, starting at 0 */
+  depth: number;
+  /** The parent comment, `undefined` for the roots */
+  parent?: Comment;
+};
+
+export type CommentFilter = {
+  /** Only comments by this author, case insensitive */
+  author?: string;
+  minScore?: number;
+  maxScore?: number;
+  /** Only comments whose body matches */
+  pattern?: RegExp;
+};
+
+export function isComment(node: CommentNode): node is Comment {
+  return "body" in node;
+}
+
+/**
+ * Get the direct replies of a node; `More` nodes have none
+ */
+export function repliesOf(node: CommentNode): CommentNode[] {
+  // Reddit returns an empty string instead of a listing when there are no replies
+  if (!isComment(node) || !node.replies) return [];
+  return node.replies.data.children.map((c) => c.data);
+}
+
+function roots(from: CommentRoots): readonly CommentNode[] {
+  if ("link" in from) return from.comments;
+  // comments() returns the link first
+  if (Array.isArray(from)) return from.filter((node) => !("title" in node));
+  return [from as Comment];
+}
+
+/**
+ * Walk a comment tree depth-first, in the order the comments are displayed
+ */
+export function* walkDepthFirst(from: CommentRoots): Generator<WalkEntry> {
+  const stack: WalkEntry[] = roots(from).map((node) => ({ node, depth: 0 }))
+    .reverse();
+  while (stack.length) {
+    const entry = stack.pop()!;
+    yield entry;
+    const parent = entry.node as Comment;
+    const children = repliesOf(entry.node).map((node) => ({
+      node,
+      depth: entry.depth + 1,
+      parent,
+    }));
+    stack.push(...children.reverse());
+  }
+}
+
+/**
+ * Walk a comment tree breadth-first, level by level
+ */
+export function* walkBreadthFirst(from: CommentRoots): Generator<WalkEntry> {
+  let level: WalkEntry[] = roots(from).map((node) => ({ node, depth: 0 }));
+  while (level.length) {
+    yield* level;
+    level = level.flatMap((entry) =>
+      repliesOf(entry.node).map((node) => ({
+        node,
+        depth: entry.depth + 1,
+        parent: entry.node as Comment,
+      }))
+    );
+  }
+}
+
+/**
+ * Flatten a comment tree into a list of comments in display order
+ * @returns The comments with their depth, without `More` nodes
+ */
+export function flattenComments(from: CommentRoots): WalkEntry<Comment>[] {
+  return [...walkDepthFirst(from)].filter((entry) =>
+    isComment(entry.node)
+  ) as WalkEntry<Comment>[];
+}
+
+/**
+ * Find the comments matching all of the given criteria
+ */
+export function filterComments(
+  from: CommentRoots,
+  filter: CommentFilter,
+): Comment[] {
+  const author = filter.author?.toLowerCase();
+  return flattenComments(from).map((entry) => entry.node).filter((c) =>
+    (author === undefined || c.author.toLowerCase() === author) &&
+    (filter.minScore === undefined || c.score >= filter.minScore) &&
+    (filter.maxScore === undefined || c.score <= filter.maxScore) &&
+    (!filter.pattern || filter.pattern.test(c.body))
+  );
+}
+
+/**
+ * Index the comments of a tree by fullname, to look up parents by `parent_id`
+ */
+export function parentMap(from: CommentRoots): Map<string, Comment> {
+  const map = new Map<string, Comment>();
+  for (const { node } of walkDepthFirst(from)) {
+    if (isComment(node)) map.set(node.name, node);
+  }
+  return map;
+}
+
+/**
+ * Get the ancestors of a comment, starting with its parent
+ * @param byName The comments of the tree, from `parentMap`
+ */
+export function ancestors(
+  comment: CommentNode,
+  byName: Map<string, Comment>,
+): Comment[] {
+  const chain: Comment[] = [];
+  let parent = byName.get(comment.parent_id);
+  while (parent && !chain.includes(parent)) {
+    chain.push(parent);
+    parent = byName.get(parent.parent_id);
+  }
+  return chain;
+}
+
+/**
+ * Get the top-level comment a comment belongs to, which may be the comment itself
+ * @param byName The comments of the tree, from `parentMap`
+ */
+export function topLevelAncestor(
+  comment: Comment,
+  byName: Map<string, Comment>,
+): Comment {
+  return ancestors(comment, byName).pop() ?? comment;
+}
+
+/**
+ * Count the replies of a comment and their replies
+ * @param unloaded Also count the comments of unexpanded `More` nodes
+ */
+export function countDescendants(comment: Comment, unloaded = false) {
+  let count = 0;
+  for (const { node } of walkDepthFirst(repliesOf(comment))) {
+    if (isComment(node)) count++;
+    else if (unloaded) count += node.count;
+  }
+  return count;
+}
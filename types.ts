@@ -1,3 +1,5 @@
+import type { SearchQuery } from "./search.ts";
+
 export type KindOf<T extends AnyThing> = //
   T extends Comment ? "t1"
     : T extends Link ? "t3"
@@ -9,6 +11,8 @@ export type KindOf<T extends AnyThing> = //
     : T extends WikiPage ? "wikipage"
     : T extends Listing<Trophy> ? "TrophyList"
     : T extends More ? "more"
+    : T extends ModAction ? "modaction"
+    : T extends Multireddit ? "LabeledMulti"
     : never;
 
 // Example: FullnameToType["t1_123"] -> Comment
@@ -33,6 +37,7 @@ export type OAuthScope =
   | "identity"
   | "livemanage"
   | "modconfig"
+  | "modcontributors"
   | "modflair"
   | "modlog"
   | "modposts"
@@ -82,10 +87,10 @@ export type HistoryParams = ListingParams & {
 };
 
 export type SearchParams = ListingParams & {
-  /**The search query. */
-  q: string;
+  /**The search query, a string or a query built with `query`. */
+  q: string | SearchQuery;
   /**The type of thing to search for. */
-  type?: "link" | "sr" | "user";
+  type?: "link" | "sr" | "user" | "comment";
   /**The time period to search. */
   t?: Time;
   /**Enable Safe search */
@@ -114,9 +119,27 @@ export type CommentTreeParams = {
     | "qa";
 };
 
+export type ExpandParams = CommentTreeParams & {
+  /** The maximum number of requests made to expand `More` nodes
+   * @default Infinity
+   */
+  maxRequests?: number;
+  /** `More` nodes deeper than this are left unexpanded
+   * @default Infinity
+   */
+  maxDepth?: number;
+};
+
+/** A link with its complete comment tree, nested through `Comment.replies` */
+export type CommentTree = {
+  link: Link;
+  /** Top-level comments, and `More` nodes that were not expanded */
+  comments: (Comment | More)[];
+};
+
 export type SubmitParams = {
   /**The kind of thing being submitted. */
-  kind: "link" | "self" | "image" | "video" | "videogif";
+  kind: "link" | "self" | "image" | "video" | "videogif" | "crosspost" | "poll";
   /**The subreddit to submit to. */
   sr: string;
   /**The title of the submission. */
@@ -129,10 +152,115 @@ export type SubmitParams = {
   sendreplies?: boolean;
   nsfw?: boolean;
   spoiler?: boolean;
+  /** The image or video of `image`, `video` and `videogif` submissions, uploaded instead of a `url` */
+  media?: MediaFile;
+  /** The thumbnail of `video` and `videogif` submissions */
+  thumbnail?: MediaFile;
+  /** The link to crosspost, for `crosspost` submissions */
+  crosspost_fullname?: Fullname<Link>;
+  /** The options of `poll` submissions */
+  poll?: PollParams;
+  /** The id of a post flair template */
+  flair_id?: string;
+  /** The flair text, if the template is editable */
+  flair_text?: string;
+  /** The id of a collection to add the post to */
+  collection_id?: string;
+  /** The start of an event post, in ISO format without timezone, e.g. `2024-05-01T18:00:00` */
+  event_start?: string;
+  event_end?: string;
+  /** The timezone of the event, e.g. `Europe/Berlin` */
+  event_tz?: string;
+};
+
+export type PollParams = {
+  /** Between 2 and 6 options */
+  options: string[];
+  /** The number of days the poll is open, between 1 and 7
+   * @default 3
+   */
+  duration?: number;
+};
+
+/** The post created by a submission */
+export interface SubmitResult {
+  id: string;
+  name: Fullname<Link>;
+  url: string;
+}
+
+/** A path to a local file, or the bytes of a file with its name */
+export type MediaFile = string | {
+  data: Uint8Array | Blob;
+  name: string;
+  /** The MIME type, guessed from the extension if omitted */
+  type?: string;
+};
+
+/** An uploaded image or video */
+export interface MediaAsset {
+  /** The asset id, used by gallery items */
+  id: string;
+  url: string;
+  /** Reports when the media is processed */
+  websocketUrl: string;
+}
+
+export type GalleryItem = {
+  media: MediaFile;
+  caption?: string;
+  /** A link shown with the item */
+  outboundUrl?: string;
+};
+
+export type GalleryParams = {
+  sr: string;
+  title: string;
+  items: GalleryItem[];
+  sendreplies?: boolean;
+  nsfw?: boolean;
+  spoiler?: boolean;
+};
+
+export type ModListingParams = ListingParams & {
+  /** Only include links or comments */
+  only?: "links" | "comments";
+};
+
+export type ModLogParams = ListingParams & {
+  /** Only include actions of this type */
+  type?: ModActionType;
+  /** Only include actions by these moderators, comma separated */
+  mod?: string;
 };
 
-export type SearchResult<T extends SearchParams["type"]> = T extends "link"
-  ? Link
+export type RemoveParams = {
+  /** Mark the thing as spam to train the spam filter */
+  spam?: boolean;
+  /** The id of one of the subreddit's removal reasons */
+  reasonId?: string;
+  /** A note for the other moderators */
+  modNote?: string;
+};
+
+export type BanParams = {
+  /** The number of days of the ban, permanent if omitted */
+  duration?: number;
+  /** The reason shown in the ban list, at most 100 characters */
+  reason?: string;
+  /** The message sent to the user */
+  message?: string;
+  /** A note for the other moderators, at most 300 characters */
+  note?: string;
+  /** The fullname of the thing the user is banned for */
+  context?: Fullname<Link | Comment>;
+};
+
+/** How a thing is distinguished, `"no"` removes the distinction */
+export type Distinguish = "yes" | "no" | "admin" | "special";
+
+export type SearchResult<T extends SearchParams["type"]> = T extends
+  "link" | undefined ? Link
   : T extends "sr" ? Subreddit
   : T extends "comment" ? Comment
   : T extends "user" ? Account | SuspendedAccount
@@ -151,8 +279,12 @@ export type ListingTypes =
   | Award
   | Trophy
   | SuspendedAccount
-  | More;
-export type AnyThing = ListingTypes | Listing | WikiPage;
+  | More
+  | ModAction
+  | UserRelationship
+  | WikiRevision
+  | FlairListItem;
+export type AnyThing = ListingTypes | Listing | WikiPage | Multireddit;
 
 export interface Thing<T extends AnyThing = AnyThing> {
   kind: KindOf<T>;
@@ -242,7 +374,8 @@ export interface Comment extends Created, Votable {
   link_url: string;
   num_reports: number | null;
   parent_id: string;
-  replies: Thing<Listing<Comment | More>>;
+  /** The replies, an empty string if there are none */
+  replies: Thing<Listing<Comment | More>> | "";
   saved: boolean;
   score: number;
   score_hidden: boolean;
@@ -300,7 +433,8 @@ export interface Message extends Created {
   first_message: string | null;
   first_message_name: Fullname<Message> | null;
   subreddit: string | null;
-  replies: string | null;
+  /** Replies of a private message, an empty string if there are none */
+  replies: Thing<Listing<Message>> | "" | null;
   author_fullname: Fullname<Account> | null;
   subject: string;
   associated_award_id: string | null;
@@ -320,6 +454,19 @@ export interface Message extends Created {
   distinguished: string | null;
 }
 
+/** Private messages grouped by `first_message_name` */
+export interface Conversation {
+  /** The fullname of the first message */
+  id: Fullname<Message>;
+  subject: string;
+  /** The usernames of everyone who sent a message */
+  participants: string[];
+  /** The messages, oldest first */
+  messages: Message[];
+  /** Whether any message is unread */
+  unread: boolean;
+}
+
 export interface Subreddit extends Created {
   accounts_active: number;
   name: Fullname<Subreddit>;
@@ -362,8 +509,10 @@ export interface Account extends Created {
   is_blocked: boolean;
   snoovatar_img: string;
   verified: boolean;
+  is_suspended?: false;
 }
 
+/** A suspended account, which only has its name; check `is_suspended` to tell it from an `Account` */
 export interface SuspendedAccount {
   name: string;
   is_suspended: true;
@@ -428,6 +577,115 @@ export interface Award extends Created {
   awardings_required_to_grant_benefits: number;
 }
 
+export type ModActionType =
+  | "banuser"
+  | "unbanuser"
+  | "spamlink"
+  | "removelink"
+  | "approvelink"
+  | "spamcomment"
+  | "removecomment"
+  | "approvecomment"
+  | "addmoderator"
+  | "invitemoderator"
+  | "uninvitemoderator"
+  | "acceptmoderatorinvite"
+  | "removemoderator"
+  | "addcontributor"
+  | "removecontributor"
+  | "editsettings"
+  | "editflair"
+  | "distinguish"
+  | "marknsfw"
+  | "wikibanned"
+  | "wikicontributor"
+  | "wikiunbanned"
+  | "wikipagelisted"
+  | "removewikicontributor"
+  | "wikirevise"
+  | "wikipermlevel"
+  | "ignorereports"
+  | "unignorereports"
+  | "setpermissions"
+  | "setsuggestedsort"
+  | "sticky"
+  | "unsticky"
+  | "setcontestmode"
+  | "unsetcontestmode"
+  | "lock"
+  | "unlock"
+  | "muteuser"
+  | "unmuteuser"
+  | "createrule"
+  | "editrule"
+  | "deleterule"
+  | "spoiler"
+  | "unspoiler"
+  | "modmail_enrollment"
+  | "community_styling"
+  | "community_widgets"
+  | "markoriginalcontent"
+  | "collections"
+  | "events"
+  | "create_award"
+  | "disable_award"
+  | "delete_award"
+  | "enable_award"
+  | "mod_award_given"
+  | "hidden_award"
+  | "add_community_topics"
+  | "remove_community_topics"
+  | "create_scheduled_post"
+  | "edit_scheduled_post"
+  | "delete_scheduled_post"
+  | "submit_scheduled_post"
+  | "edit_post_requirements"
+  | "invitesubscriber"
+  | "submit_content_rating_survey"
+  | "adjust_post_crowd_control_level"
+  | "enable_post_crowd_control_filter"
+  | "disable_post_crowd_control_filter"
+  | "deleteoverriddenclassification"
+  | "overrideclassification"
+  | "reordermoderators"
+  | "snoozereports"
+  | "unsnoozereports";
+
+/** An entry of the moderation log */
+export interface ModAction {
+  /** @example "ModAction_b6ee06d0-47c4-11ee-bd45-6a3a5ef7b9f8" */
+  id: string;
+  action: ModActionType;
+  created_utc: number;
+  description: string | null;
+  details: string | null;
+  /** The moderator's username */
+  mod: string;
+  mod_id36: string;
+  sr_id36: string;
+  subreddit: string;
+  subreddit_name_prefixed: string;
+  target_author: string | null;
+  target_body: string | null;
+  target_fullname: Fullname<Link | Comment | Account> | null;
+  target_permalink: string | null;
+  target_title: string | null;
+}
+
+/** A user in a subreddit's list of banned, muted or approved users, or the user's friends */
+export interface UserRelationship {
+  /** The username */
+  name: string;
+  /** The fullname of the user */
+  id: Fullname<Account>;
+  /** The fullname of the relationship, e.g. `rb_1b2c3d` */
+  rel_id?: string;
+  date: number;
+  note?: string;
+  /** The remaining days of a temporary ban, `null` if permanent */
+  days_left?: number | null;
+}
+
 export interface WikiPage {
   content_md: string;
   content_html: string;
@@ -437,6 +695,311 @@ export interface WikiPage {
   revision_id: number;
 }
 
+export type FlairType = "USER_FLAIR" | "LINK_FLAIR";
+
+/** A part of a rich text flair, text or an emoji */
+export type FlairRichtext =
+  | { e: "text"; t: string }
+  | { e: "emoji"; a: string; u: string };
+
+export interface FlairTemplate {
+  id: string;
+  type: "text" | "richtext";
+  text: string;
+  richtext: FlairRichtext[];
+  text_color: "light" | "dark";
+  background_color: string;
+  css_class: string;
+  text_editable: boolean;
+  mod_only: boolean;
+  allowable_content: "all" | "emoji" | "text";
+  max_emojis: number;
+  override_css: boolean;
+}
+
+export type FlairTemplateParams = {
+  text?: string;
+  cssClass?: string;
+  textColor?: "light" | "dark";
+  /** A hex color, e.g. `#ff4500` */
+  backgroundColor?: string;
+  /** Only moderators can assign the flair */
+  modOnly?: boolean;
+  /** Users can edit the text when they select the flair */
+  textEditable?: boolean;
+  allowableContent?: "all" | "emoji" | "text";
+  maxEmojis?: number;
+};
+
+export type FlairParams = {
+  text?: string;
+  cssClass?: string;
+};
+
+/** A user in the list of the subreddit's user flairs */
+export interface FlairListItem {
+  user: string;
+  flair_text: string | null;
+  flair_css_class: string | null;
+}
+
+export type FlairListParams = ListingParams & {
+  /** Only include this user */
+  name?: string;
+};
+
+/** A row of a bulk flair update */
+export type FlairCsvRow = {
+  user: string;
+  /** Removes the flair if both the text and the CSS class are empty */
+  text?: string;
+  cssClass?: string;
+};
+
+export interface FlairCsvResult {
+  /** The user of the row */
+  user: string;
+  ok: boolean;
+  status: string;
+  errors: Record<string, string>;
+  warnings: Record<string, string>;
+}
+
+/** A revision in the history of a wiki page */
+export interface WikiRevision {
+  /** The revision id, used to read or revert to the revision */
+  id: string;
+  page: string;
+  reason: string | null;
+  timestamp: number;
+  author: Thing<Account>;
+  revision_hidden: boolean;
+}
+
+/**
+ * Who may edit a wiki page
+ * - `0` the subreddit's wiki settings apply
+ * - `1` approved wiki contributors only
+ * - `2` moderators only
+ */
+export type WikiPermLevel = 0 | 1 | 2;
+
+export interface WikiPageSettings {
+  permlevel: WikiPermLevel;
+  /** Whether the page appears in the list of pages */
+  listed: boolean;
+  /** The users who may edit the page regardless of its permission level */
+  editors: Thing<Account>[];
+}
+
+export type WikiEditParams = {
+  /** The reason shown in the revision history, at most 256 characters */
+  reason?: string;
+  /** The id of the revision the edit is based on; the edit fails with a `ConflictError` if the page changed since */
+  previous?: string;
+};
+
+/** A rule of a subreddit */
+export interface SubredditRule {
+  /** What the rule applies to */
+  kind: "link" | "comment" | "all";
+  short_name: string;
+  description: string;
+  description_html: string;
+  /** The reason shown when reporting a violation of the rule */
+  violation_reason: string;
+  created_utc: number;
+  priority: number;
+}
+
+export interface SubredditRules {
+  rules: SubredditRule[];
+  /** The site-wide rules that can be reported in every subreddit */
+  site_rules: string[];
+}
+
+/** The text shown on the submission page of a subreddit */
+export interface SubmitText {
+  submit_text: string;
+  submit_text_html: string | null;
+}
+
+export type SubredditType =
+  | "public"
+  | "private"
+  | "restricted"
+  | "gold_restricted"
+  | "archived"
+  | "employees_only";
+
+export type SpamFilter = "low" | "high" | "all";
+
+/** The settings of a subreddit, as moderators edit them */
+export interface SubredditSettings {
+  subreddit_id: Fullname<Subreddit>;
+  title: string;
+  /** The short description shown in search results and previews */
+  public_description: string;
+  /** The sidebar, in markdown */
+  description: string;
+  submit_text: string;
+  submit_link_label: string;
+  submit_text_label: string;
+  header_hover_text: string;
+  subreddit_type: SubredditType;
+  /** The kinds of posts that are allowed */
+  content_options: "any" | "link" | "self";
+  language: string;
+  over_18: boolean;
+  allow_images: boolean;
+  allow_videos: boolean;
+  allow_polls: boolean;
+  allow_discovery: boolean;
+  spoilers_enabled: boolean;
+  show_media: boolean;
+  show_media_preview: boolean;
+  exclude_banned_modqueue: boolean;
+  collapse_deleted_comments: boolean;
+  /** Minutes during which comment scores are hidden */
+  comment_score_hide_mins: number;
+  /** Whether the subreddit is allowed in r/all and r/popular */
+  default_set: boolean;
+  wikimode: "disabled" | "modonly" | "anyone";
+  wiki_edit_age: number;
+  wiki_edit_karma: number;
+  spam_links: SpamFilter;
+  spam_selfposts: SpamFilter;
+  spam_comments: SpamFilter;
+  suggested_comment_sort: NonNullable<CommentTreeParams["sort"]> | null;
+  /** A hex color, e.g. `#ff4500` */
+  key_color: string;
+  welcome_message_enabled: boolean;
+  welcome_message_text: string | null;
+}
+
+export type SubredditSettingsParams = Partial<
+  Omit<SubredditSettings, "subreddit_id">
+>;
+
+export type AutocompleteParams = {
+  /** Include NSFW subreddits
+   * @default false
+   */
+  nsfw?: boolean;
+  /** @default 5 */
+  limit?: number;
+};
+
+export type MultiredditVisibility = "private" | "public" | "hidden";
+
+export interface Multireddit {
+  name: string;
+  display_name: string;
+  /** @example "/user/spez/m/tech" */
+  path: string;
+  owner: string;
+  owner_id: Fullname<Account>;
+  description_md: string;
+  description_html: string;
+  visibility: MultiredditVisibility;
+  subreddits: { name: string }[];
+  key_color: string | null;
+  icon_url: string;
+  num_subscribers: number;
+  /** The path of the multireddit this one was copied from */
+  copied_from: string | null;
+  can_edit: boolean;
+  is_favorited: boolean;
+  is_subscriber: boolean;
+  over_18: boolean;
+  weighting_scheme: "classic" | "fresh";
+  created: number;
+  created_utc: number;
+}
+
+export type MultiredditParams = {
+  displayName?: string;
+  /** The names of the subreddits, replacing the current ones */
+  subreddits?: string[];
+  visibility?: MultiredditVisibility;
+  /** Raw markdown */
+  description?: string;
+  /** A hex color, e.g. `#ff4500` */
+  keyColor?: string;
+  /** `fresh` gives smaller subreddits more weight in the listings */
+  weightingScheme?: "classic" | "fresh";
+};
+
+/** The karma of the user in a subreddit */
+export interface KarmaBreakdown {
+  /** The name of the subreddit */
+  sr: string;
+  link_karma: number;
+  comment_karma: number;
+}
+
+/** The preferences of the user */
+export interface Prefs {
+  /** Who may send private messages */
+  accept_pms: "everyone" | "whitelisted";
+  activity_relevant_ads: boolean;
+  allow_clicktracking: boolean;
+  beta: boolean;
+  collapse_read_messages: boolean;
+  country_code: string;
+  default_comment_sort: NonNullable<CommentTreeParams["sort"]>;
+  email_comment_reply: boolean;
+  email_digests: boolean;
+  email_messages: boolean;
+  email_post_reply: boolean;
+  email_private_message: boolean;
+  email_unsubscribe_all: boolean;
+  email_username_mention: boolean;
+  enable_followers: boolean;
+  hide_ads: boolean;
+  hide_from_robots: boolean;
+  highlight_controversial: boolean;
+  ignore_suggested_sort: boolean;
+  label_nsfw: boolean;
+  /** e.g. `en` */
+  lang: string;
+  mark_messages_read: boolean;
+  media: "on" | "off" | "subreddit";
+  media_preview: "on" | "off" | "subreddit";
+  min_comment_score: number | null;
+  min_link_score: number | null;
+  monitor_mentions: boolean;
+  nightmode: boolean;
+  no_profanity: boolean;
+  num_comments: number;
+  numsites: number;
+  over_18: boolean;
+  private_feeds: boolean;
+  profile_opt_out: boolean;
+  public_votes: boolean;
+  search_include_over_18: boolean;
+  show_flair: boolean;
+  show_link_flair: boolean;
+  show_presence: boolean;
+  show_stylesheets: boolean;
+  show_trending: boolean;
+  store_visits: boolean;
+  third_party_data_personalized_ads: boolean;
+  threaded_messages: boolean;
+  top_karma_subreddits: boolean;
+  video_autoplay: boolean;
+}
+
+/** The result of a lookup of many things */
+export interface InfoResult<T extends ListingTypes, K extends string = string> {
+  /** The things that were found, in the order they were requested */
+  things: T[];
+  /** The requested fullnames or names that weren't found */
+  missing: K[];
+  /** The requested links and comments that were deleted or removed, which are also in `things` */
+  deleted: K[];
+}
+
 export interface Trophy {
   name: string;
   id: string;
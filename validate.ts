@@ -0,0 +1,241 @@
+import type { ValidationIssue } from "./errors.ts";
+
+/**
+ * How responses are checked against the types
+ * - `strict` throws a `ValidationError`
+ * - `warn` logs the issues
+ * - `off` skips the checks
+ */
+export type ValidationLevel = "strict" | "warn" | "off";
+
+type Check = (value: unknown, path: string, issues: ValidationIssue[]) => void;
+
+function describe(value: unknown) {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  if (typeof value === "string") {
+    return value.length > 20 ? `"${value.slice(0, 20)}…"` : `"${value}"`;
+  }
+  return typeof value;
+}
+
+function type(expected: string, is: (value: unknown) => boolean): Check {
+  return (value, path, issues) => {
+    if (!is(value)) issues.push({ path, expected, received: describe(value) });
+  };
+}
+
+const string = type("string", (v) => typeof v === "string");
+const number = type("number", (v) => typeof v === "number");
+const boolean = type("boolean", (v) => typeof v === "boolean");
+
+function nullable(check: Check): Check {
+  return (value, path, issues) => {
+    if (value !== null) check(value, path, issues);
+  };
+}
+
+function optional(check: Check): Check {
+  return (value, path, issues) => {
+    if (value !== undefined) check(value, path, issues);
+  };
+}
+
+/** One of the checks passes */
+function either(expected: string, ...checks: Check[]): Check {
+  return (value, path, issues) => {
+    const passes = checks.some((check) => {
+      const found: ValidationIssue[] = [];
+      check(value, path, found);
+      return !found.length;
+    });
+    if (!passes) issues.push({ path, expected, received: describe(value) });
+  };
+}
+
+function literal(expected: unknown): Check {
+  return (value, path, issues) => {
+    if (value !== expected) {
+      issues.push({
+        path,
+        expected: JSON.stringify(expected),
+        received: describe(value),
+      });
+    }
+  };
+}
+
+function array(check: Check): Check {
+  return (value, path, issues) => {
+    if (!Array.isArray(value)) {
+      issues.push({ path, expected: "array", received: describe(value) });
+      return;
+    }
+    value.forEach((item, i) => check(item, `${path}[${i}]`, issues));
+  };
+}
+
+/** Checks the given fields, other fields are allowed */
+function object(shape: Record<string, Check>): Check {
+  return (value, path, issues) => {
+    if (!value || typeof value !== "object" || Array.isArray(value)) {
+      issues.push({ path, expected: "object", received: describe(value) });
+      return;
+    }
+    for (const [key, check] of Object.entries(shape)) {
+      check((value as Record<string, unknown>)[key], `${path}.${key}`, issues);
+    }
+  };
+}
+
+/** A fullname of the given kind, e.g. `t3_15bfi0` */
+function fullname(kind: string): Check {
+  return (value, path, issues) => {
+    if (typeof value !== "string" || !value.startsWith(`${kind}_`)) {
+      issues.push({
+        path,
+        expected: `fullname ${kind}_*`,
+        received: describe(value),
+      });
+    }
+  };
+}
+
+const listingData = object({
+  before: nullable(string),
+  after: nullable(string),
+  children: array(object({ kind: string, data: object({}) })),
+});
+
+const listing = object({ kind: literal("Listing"), data: listingData });
+
+/** Replies are an empty string instead of a listing when there are none */
+const replies = either('Listing or ""', listing, literal(""));
+
+const link = object({
+  id: string,
+  name: fullname("t3"),
+  title: string,
+  subreddit: string,
+  author: string,
+  selftext: string,
+  url: string,
+  permalink: string,
+  is_self: boolean,
+  score: nullable(number),
+  created_utc: number,
+});
+
+const comment = object({
+  id: string,
+  name: fullname("t1"),
+  body: string,
+  author: string,
+  link_id: fullname("t3"),
+  parent_id: string,
+  subreddit: string,
+  score: number,
+  created_utc: number,
+  replies,
+});
+
+const message = object({
+  id: string,
+  name: string,
+  author: string,
+  subject: string,
+  body: string,
+  dest: nullable(string),
+  new: boolean,
+  was_comment: boolean,
+  created_utc: number,
+  replies: optional(either('Listing, "" or null', replies, literal(null))),
+});
+
+const subreddit = object({
+  id: string,
+  name: fullname("t5"),
+  display_name: string,
+  title: string,
+  url: string,
+  subscribers: nullable(number),
+  over18: nullable(boolean),
+  subreddit_type: string,
+  created_utc: number,
+});
+
+const account = object({
+  id: string,
+  name: string,
+  link_karma: number,
+  comment_karma: number,
+  created_utc: number,
+});
+
+const suspendedAccount = object({
+  name: string,
+  is_suspended: literal(true),
+});
+
+const more = object({
+  id: string,
+  name: fullname("t1"),
+  parent_id: string,
+  count: number,
+  depth: number,
+  children: array(string),
+});
+
+/** The schema of the data of each kind, see `KindOf` */
+const kinds: Record<string, Check> = {
+  t1: (value, path, issues) => {
+    // Comment replies in the inbox have the kind of a comment and the fields of a message
+    const check = (value as { was_comment?: boolean })?.was_comment
+      ? message
+      : comment;
+    check(value, path, issues);
+  },
+  t2: (value, path, issues) => {
+    const check = (value as { is_suspended?: boolean })?.is_suspended
+      ? suspendedAccount
+      : account;
+    check(value, path, issues);
+  },
+  t3: link,
+  t4: message,
+  t5: subreddit,
+  more,
+  Listing: listingData,
+};
+
+/**
+ * Check a response against the types of the things it contains
+ *
+ * Things are found anywhere in the response, e.g. in listings, in the replies of
+ * comments or in the `json.data.things` of `api_type=json` responses.
+ * @returns The fields that don't match, with their path from the root
+ */
+export function validate(body: unknown, path = "$"): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  if (typeof body === "string" && body.length) {
+    // e.g. an HTML error page with a 200 status
+    issues.push({ path, expected: "JSON", received: describe(body) });
+  }
+  walk(body, path, issues);
+  return issues;
+}
+
+function walk(value: unknown, path: string, issues: ValidationIssue[]) {
+  if (Array.isArray(value)) {
+    value.forEach((item, i) => walk(item, `${path}[${i}]`, issues));
+    return;
+  }
+  if (!value || typeof value !== "object") return;
+  const { kind, data } = value as { kind?: unknown; data?: unknown };
+  if (typeof kind === "string" && kinds[kind]) {
+    kinds[kind](data, `${path}.data`, issues);
+  }
+  for (const [key, child] of Object.entries(value)) {
+    walk(child, `${path}.${key}`, issues);
+  }
+}